@@ -1,14 +1,69 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Complex, FrequencyComponent, InputMode } from './types';
-import { fft, getFrequencyComponents } from './services/fft';
+import { AnalysisSlot, CameraPose, CompareSlot, Complex, FilterMethod, FilterSettings, FilterType, FrequencyComponent, InputMode, PhaseSettings, ReconstructionMode, Session, SignalSnapshot, SignalSource, SignalState, SpectrumScale, SpectrumScaleSettings, WindowSettings, WindowType } from './types';
+import {
+  zeroPad,
+  reconstructSignal,
+  computeReconstructionStats,
+  selectReconstructionFrequencies,
+} from './services/fft';
+import { createWindow, applyWindow, coherentGain, equivalentNoiseBandwidth, WINDOW_LABELS } from './services/window';
+import { extractComponents } from './services/analysis';
+import { SPECTRUM_SCALE_LABELS, scaleSpectrum, spectrumPeak, normalizeSpectrum } from './services/spectrum';
 import Visualizer3D from './components/Visualizer3D';
 import SignalInput from './components/SignalInput';
+import ReconstructionPanel from './components/ReconstructionPanel';
+import WindowPanel from './components/WindowPanel';
+import Spectrogram3D from './components/Spectrogram3D';
+import { useSpectrum } from './hooks/useSpectrum';
+import PhasePanel from './components/PhasePanel';
+import { computePhaseSpectrum } from './services/phase';
+import { formatFrequency, formatTime } from './services/units';
+import { DEFAULT_SIGNAL_SOURCE, MAX_POINTS, MIN_POINTS, SESSION_VERSION } from './services/session';
+import WorkspacePanel from './components/WorkspacePanel';
+import ExportMenu from './components/ExportMenu';
+import { SceneHandle } from './services/sceneExport';
+import HistoryPanel from './components/HistoryPanel';
+import { useHistory } from './hooks/useHistory';
+import { sameSignalLayout, sameSignalState } from './services/signalState';
+import FilterPanel from './components/FilterPanel';
+import { resampleDrawing } from './services/drawing';
+import ConvolutionWorkspace from './components/ConvolutionWorkspace';
+import ProcessTab from './components/ProcessTab';
+import EpicycleView from './components/EpicycleView';
+import SamplingView from './components/SamplingView';
+import ImageFftView from './components/ImageFftView';
+import ComparePanel from './components/ComparePanel';
+import CompareSpectrum from './components/CompareSpectrum';
+import SpectrumBars from './components/SpectrumBars';
+import { SpectrumCurve, otherSlot } from './services/compare';
+import { CUSTOM_GAIN_POINTS, applyFilter, designFir, filterResponse } from './services/filter';
 
-const POINT_OPTIONS = [32, 64, 128];
+const POINT_OPTIONS = [32, 64, 128, 256, 512];
+const PADDING_OPTIONS = [1, 2, 4, 8, 16];
+const EMPTY_SIGNAL: number[] = [];
+const EMPTY_SPECTRUM: Complex[] = [];
+const SECOND_POINT_OPTIONS = [8, 16, 32, 64, 128, 256];
+const SECOND_SIGNAL_SOURCE: SignalSource = { ...DEFAULT_SIGNAL_SOURCE, equation: 'exp(-8 * x)' };
+// The second signal shares the main sample clock, so a WAV file can't change it
+const ignoreSampleRate = () => {};
+// Gains along the wall, DC to Nyquist, for the filter response curve
+const FILTER_CURVE_FRACTIONS = Array.from({ length: 257 }, (_, i) => i / 256);
 
 const App: React.FC = () => {
   const [numPoints, setNumPoints] = useState(128);
+  // Text of the "Any N" field while it is being edited; committed on blur or Enter
+  const [pointsDraft, setPointsDraft] = useState<string | null>(null);
+  const commitPointsDraft = useCallback(() => {
+    const next = Math.round(Number(pointsDraft));
+    if (pointsDraft !== null && pointsDraft.trim() !== '' && Number.isFinite(next)) {
+      setNumPoints(Math.min(MAX_POINTS, Math.max(MIN_POINTS, next)));
+    }
+    setPointsDraft(null);
+  }, [pointsDraft]);
+  // Physical sampling clock. Defaults to one sample per point over a one-second record.
+  const [sampleRate, setSampleRate] = useState(128);
+  const duration = numPoints / sampleRate;
 
   // Store the "master" signal to allow non-destructive downsampling/upsampling logic
   const referenceSignal = useRef<number[]>([]);
@@ -26,7 +81,38 @@ const App: React.FC = () => {
   });
 
   const [inputMode, setInputMode] = useState<InputMode>(InputMode.EQUATION);
-  const [activeTab, setActiveTab] = useState<'3d' | 'steps'>('3d');
+  const [signalSource, setSignalSource] = useState<SignalSource>(DEFAULT_SIGNAL_SOURCE);
+  // Last orbit position of the 3D view, saved with the session
+  const [cameraPose, setCameraPose] = useState<CameraPose | null>(null);
+  // Set by the 3D view while it is mounted, for PNG and glTF export
+  const [sceneHandle, setSceneHandle] = useState<SceneHandle | null>(null);
+  // Q channel of a complex (I/Q) signal; null while the signal is real
+  const [imagSignal, setImagSignal] = useState<number[] | null>(null);
+  const [twoSidedSelected, setTwoSidedSelected] = useState(false);
+  const [showImages, setShowImages] = useState(false);
+  const isComplex = imagSignal !== null;
+  // Complex signals have no conjugate symmetry, so only the two-sided view is meaningful
+  const twoSided = isComplex || twoSidedSelected;
+
+  // Drawing always produces a real signal
+  useEffect(() => {
+    if (inputMode === InputMode.DRAW) setImagSignal(null);
+  }, [inputMode]);
+  const [activeTab, setActiveTab] = useState<'3d' | 'spectrogram' | 'sampling' | 'convolution' | 'epicycles' | 'image' | 'steps'>('3d');
+
+  // Second input h[n] for the convolution workspace
+  const [secondPoints, setSecondPoints] = useState(32);
+  const [secondSignal, setSecondSignal] = useState<number[]>(() => Array.from({ length: 32 }, (_, i) => Math.exp(-8 * i / 32)));
+  const [secondImag, setSecondImag] = useState<number[] | null>(null);
+  const [secondMode, setSecondMode] = useState<InputMode>(InputMode.EQUATION);
+  const [secondSource, setSecondSource] = useState<SignalSource>(SECOND_SIGNAL_SOURCE);
+
+  // Drawn second signals are resampled in place (other modes regenerate themselves)
+  useEffect(() => {
+    if (secondMode !== InputMode.DRAW) return;
+    setSecondImag(null);
+    setSecondSignal(prev => (prev.length === secondPoints ? prev : resampleDrawing(prev, secondPoints)));
+  }, [secondMode, secondPoints]);
 
   // Resample signal when numPoints changes to maintain the wave shape
   // ONLY for DRAW mode. For Equation/Numbers, the SignalInput component handles regeneration.
@@ -46,52 +132,174 @@ const App: React.FC = () => {
       return;
     }
 
-    // Resample from Source -> Signal
-    const next = new Array(numPoints).fill(0);
-    const srcLen = source.length;
-
-    // Choose interpolation strategy
-    // In Draw Mode, users expect "pixels" to scale up sharply (Nearest Neighbor), 
-    // preserving high-frequency edges. Linear interpolation smooths them out.
-    // We use NN for upsampling, and keep Linear for downsampling (to average out data loss somewhat).
-    const useNearest = srcLen < numPoints;
-
-    for (let i = 0; i < numPoints; i++) {
-      if (useNearest) {
-        // Nearest Neighbor
-        const samplePos = (i / numPoints) * srcLen;
-        const index = Math.min(Math.floor(samplePos), srcLen - 1);
-        next[i] = source[index] ?? 0;
-      } else {
-        // Linear Interpolation
-        const samplePos = (i / (numPoints - 1)) * (srcLen - 1);
-        const indexLow = Math.floor(samplePos);
-        const indexHigh = Math.ceil(samplePos);
-        const weight = samplePos - indexLow;
-
-        const valLow = source[indexLow] ?? 0;
-        const valHigh = source[indexHigh] ?? (source[indexLow] ?? 0);
-
-        next[i] = valLow * (1 - weight) + valHigh * weight;
-      }
-    }
-    setSignal(next);
+    setSignal(resampleDrawing(source, numPoints));
   }, [numPoints, inputMode]);
 
-  const fftResult = useMemo(() => {
-    if (!signal || signal.length < 2) return [];
-    try {
-      return fft(signal);
-    } catch (e) {
-      console.error("FFT Error:", e);
-      return [];
-    }
-  }, [signal]);
+  const [windowSettings, setWindowSettings] = useState<WindowSettings>({ type: WindowType.RECTANGULAR, kaiserBeta: 8.6 });
+  const [showUnwindowed, setShowUnwindowed] = useState(false);
+
+  const windowShape = useMemo(() => createWindow(windowSettings, signal.length), [windowSettings, signal.length]);
+  const windowGain = useMemo(() => coherentGain(windowShape), [windowShape]);
+  const windowedSignal = useMemo(() => applyWindow(signal, windowShape), [signal, windowShape]);
+  const windowedImag = useMemo(() => (imagSignal ? applyWindow(imagSignal, windowShape) : null), [imagSignal, windowShape]);
+  const isWindowed = windowSettings.type !== WindowType.RECTANGULAR;
+  // The components describe the windowed signal over the coherent gain; the 3D playhead sums back to this
+  const playheadTarget = useMemo(
+    () => (isWindowed ? windowedSignal.map(v => v / (windowGain || 1)) : null),
+    [isWindowed, windowedSignal, windowGain]
+  );
+
+  // Zero-padding: the FFT runs over padFactor × N points. That interpolates the
+  // spectrum onto a finer grid, but only every padFactor-th bin is an original one.
+  const [padFactor, setPadFactor] = useState(1);
+  const fftLength = signal.length * padFactor;
+  const paddedSignal = useMemo(() => zeroPad(windowedSignal, fftLength), [windowedSignal, fftLength]);
+  const paddedImag = useMemo(() => (windowedImag ? zeroPad(windowedImag, fftLength) : null), [windowedImag, fftLength]);
+
+  // FFTs run on a worker; stale requests are dropped while the user is drawing. Until the
+  // transform for the current N, window and padding arrives, there is no spectrum rather
+  // than the previous one scaled with the new parameters.
+  const spectrumParams = useMemo(() => ({ n: signal.length, windowGain, padFactor }), [signal.length, windowGain, padFactor]);
+  const { spectrum: latestSpectrum, params: latestParams, pending: analysisPending, error: analysisError } =
+    useSpectrum(paddedSignal, paddedImag, spectrumParams);
+  const fftResult = latestParams === spectrumParams ? latestSpectrum : EMPTY_SPECTRUM;
 
   const components = useMemo(() => {
-    if (!fftResult || fftResult.length === 0) return [];
-    return getFrequencyComponents(fftResult, signal.length);
-  }, [fftResult, signal.length]);
+    if (!fftResult) return [];
+    return extractComponents(fftResult, signal.length, windowGain, sampleRate, twoSided);
+  }, [fftResult, signal.length, windowGain, sampleRate, twoSided]);
+
+  // The transform of the unpadded N samples: every padFactor-th padded bin
+  const baseSpectrum = useMemo(
+    () => (padFactor === 1 ? fftResult : fftResult.filter((_, k) => k % padFactor === 0)),
+    [fftResult, padFactor]
+  );
+  const baseComponents = useMemo(() => {
+    if (padFactor === 1) return components;
+    return extractComponents(baseSpectrum, signal.length, windowGain, sampleRate, twoSided);
+  }, [padFactor, components, baseSpectrum, signal.length, windowGain, sampleRate, twoSided]);
+
+  // Spectrum of the raw signal, only needed for the with/without window overlay
+  const showComparison = isWindowed && showUnwindowed;
+  const paddedRaw = useMemo(() => zeroPad(signal, fftLength), [signal, fftLength]);
+  const paddedRawImag = useMemo(() => (imagSignal ? zeroPad(imagSignal, fftLength) : null), [imagSignal, fftLength]);
+  const unwindowedParams = useMemo(() => ({ n: signal.length, padFactor }), [signal.length, padFactor]);
+  const unwindowed = useSpectrum(showComparison ? paddedRaw : EMPTY_SIGNAL, showComparison ? paddedRawImag : null, unwindowedParams);
+  const unwindowedSpectrum = unwindowed.params === unwindowedParams ? unwindowed.spectrum : EMPTY_SPECTRUM;
+  const unwindowedComponents = useMemo(() => {
+    if (!showComparison || unwindowedSpectrum.length === 0) return null;
+    return extractComponents(unwindowedSpectrum, signal.length, 1, sampleRate, twoSided);
+  }, [showComparison, unwindowedSpectrum, signal.length, sampleRate, twoSided]);
+
+  const [spectrumScale, setSpectrumScale] = useState<SpectrumScaleSettings>({
+    scale: SpectrumScale.AMPLITUDE,
+    dbReference: 1,
+    dbFloor: -80,
+  });
+  const noiseBandwidth = useMemo(() => equivalentNoiseBandwidth(windowShape), [windowShape]);
+
+  const spectrumValues = useMemo(
+    () => scaleSpectrum(components, spectrumScale, { n: signal.length, fftLength: fftResult.length, sampleRate, twoSided, noiseBandwidth }),
+    [components, spectrumScale, signal.length, fftResult.length, sampleRate, twoSided, noiseBandwidth]
+  );
+  const spectrumMax = useMemo(() => spectrumPeak(spectrumValues, spectrumScale), [spectrumValues, spectrumScale]);
+  const spectrumHeights = useMemo(
+    () => normalizeSpectrum(spectrumValues, spectrumScale, spectrumMax),
+    [spectrumValues, spectrumScale, spectrumMax]
+  );
+
+  // The 3D wall keeps raw amplitudes (matching the sine projections) unless another scale is picked
+  const barHeights = useMemo(() => {
+    if (spectrumScale.scale === SpectrumScale.AMPLITUDE) return null;
+    return new Map(components.map((c, i) => [c.bin, spectrumHeights[i]]));
+  }, [components, spectrumHeights, spectrumScale.scale]);
+  const comparisonHeights = useMemo(() => {
+    if (!unwindowedComponents || spectrumScale.scale === SpectrumScale.AMPLITUDE) return null;
+    const values = scaleSpectrum(unwindowedComponents, spectrumScale, {
+      n: signal.length,
+      fftLength: unwindowedSpectrum.length,
+      sampleRate,
+      twoSided,
+      noiseBandwidth: 1,
+    });
+    const heights = normalizeSpectrum(values, spectrumScale, spectrumMax);
+    return new Map(unwindowedComponents.map((c, i) => [c.bin, heights[i]]));
+  }, [unwindowedComponents, signal.length, unwindowedSpectrum.length, spectrumScale, spectrumMax, sampleRate, twoSided]);
+
+  const [phaseSettings, setPhaseSettings] = useState<PhaseSettings>({
+    showWall: true,
+    unwrapped: false,
+    thresholdDb: -40,
+    showGroupDelay: false,
+  });
+  const phasePoints = useMemo(
+    () => computePhaseSpectrum(components, phaseSettings.thresholdDb),
+    [components, phaseSettings.thresholdDb]
+  );
+
+  const [reconstructionMode, setReconstructionMode] = useState<ReconstructionMode>(ReconstructionMode.OFF);
+  const [reconstructionCount, setReconstructionCount] = useState(5);
+  const [disabledBins, setDisabledBins] = useState<Set<number>>(() => new Set());
+
+  // Reconstruction picks from the original bins only; disabledBins uses their unpadded indices
+  const activeBaseBins = useMemo(() => {
+    if (reconstructionMode === ReconstructionMode.OFF) return null;
+    return selectReconstructionFrequencies(baseComponents, reconstructionMode, reconstructionCount, disabledBins);
+  }, [baseComponents, reconstructionMode, reconstructionCount, disabledBins]);
+
+  // The same selection on the padded grid, for highlighting
+  const activeBins = useMemo(
+    () => (activeBaseBins ? new Set(activeBaseBins.map(bin => bin * padFactor)) : null),
+    [activeBaseBins, padFactor]
+  );
+
+  const reconstruction = useMemo(() => {
+    if (!activeBaseBins || baseSpectrum.length === 0) return null;
+    // In the two-sided view each signed bin is picked on its own; the overlay shows the real (I) part
+    return reconstructSignal(baseSpectrum, activeBaseBins, !twoSided);
+  }, [baseSpectrum, activeBaseBins, twoSided]);
+
+  const reconstructionStats = useMemo(() => {
+    if (!reconstruction) return null;
+    // The reconstruction rebuilds what was analyzed, i.e. the windowed signal
+    return computeReconstructionStats(windowedSignal, reconstruction);
+  }, [windowedSignal, reconstruction]);
+
+  const [filterSettings, setFilterSettings] = useState<FilterSettings>({
+    type: FilterType.OFF,
+    method: FilterMethod.MASK,
+    cutoff: 0.25,
+    cutoffHigh: 0.5,
+    taps: 31,
+    window: { type: WindowType.HAMMING, kaiserBeta: 8.6 },
+    customGains: new Array(CUSTOM_GAIN_POINTS).fill(1),
+  });
+  const filterActive = filterSettings.type !== FilterType.OFF;
+
+  const filterTaps = useMemo(
+    () => (filterActive && filterSettings.method === FilterMethod.FIR ? designFir(filterSettings) : null),
+    [filterActive, filterSettings]
+  );
+
+  // The filter acts on the input as entered, before the analysis window
+  const filtered = useMemo(
+    () => (filterActive ? applyFilter(signal, imagSignal, filterSettings, filterTaps) : null),
+    [filterActive, signal, imagSignal, filterSettings, filterTaps]
+  );
+
+  const filterGains = useMemo(
+    () => (filterActive ? filterResponse(filterSettings, FILTER_CURVE_FRACTIONS, filterTaps) : null),
+    [filterActive, filterSettings, filterTaps]
+  );
+
+  const toggleBin = useCallback((bin: number) => {
+    setDisabledBins(prev => {
+      const next = new Set(prev);
+      if (next.has(bin)) next.delete(bin);
+      else next.add(bin);
+      return next;
+    });
+  }, []);
 
   const updateSignal = useCallback((newSignal: number[] | ((prev: number[]) => number[])) => {
     setSignal(prev => {
@@ -102,7 +310,173 @@ const App: React.FC = () => {
     });
   }, []);
 
-  console.log('Spectrum Components:', components.length, components);
+  const getSession = useCallback((): Session => {
+    // A loaded WAV file isn't stored; its analyzed segment travels as a drawn signal
+    const storesSamples = inputMode === InputMode.DRAW || inputMode === InputMode.FILE;
+    return {
+      version: SESSION_VERSION,
+      numPoints,
+      sampleRate,
+      inputMode: storesSamples ? InputMode.DRAW : inputMode,
+      source: signalSource,
+      signal: storesSamples ? signal : null,
+      window: windowSettings,
+      padFactor,
+      twoSided: twoSidedSelected,
+      spectrumScale,
+      phase: phaseSettings,
+      reconstruction: { mode: reconstructionMode, count: reconstructionCount, disabledBins: [...disabledBins] },
+      camera: cameraPose,
+    };
+  }, [inputMode, numPoints, sampleRate, signalSource, signal, windowSettings, padFactor, twoSidedSelected, spectrumScale, phaseSettings, reconstructionMode, reconstructionCount, disabledBins, cameraPose]);
+
+  const applySession = useCallback((session: Session) => {
+    setNumPoints(session.numPoints);
+    setSampleRate(session.sampleRate);
+    setSignalSource(session.source);
+    setInputMode(session.inputMode);
+    // Formula and number modes regenerate the signal from the source; drawn samples are restored as-is
+    if (session.signal) {
+      updateSignal(session.signal);
+      setImagSignal(null);
+    }
+    setWindowSettings(session.window);
+    setPadFactor(session.padFactor);
+    setTwoSidedSelected(session.twoSided);
+    setSpectrumScale(session.spectrumScale);
+    setPhaseSettings(session.phase);
+    setReconstructionMode(session.reconstruction.mode);
+    setReconstructionCount(session.reconstruction.count);
+    setDisabledBins(new Set(session.reconstruction.disabledBins));
+    setCameraPose(session.camera);
+  }, [updateSignal]);
+
+  // Everything an edit of the input can change; undo and snapshots restore all of it
+  const signalState = useMemo<SignalState>(
+    () => ({ inputMode, numPoints, sampleRate, source: signalSource, signal, imagSignal }),
+    [inputMode, numPoints, sampleRate, signalSource, signal, imagSignal]
+  );
+
+  const applySignalState = useCallback((state: SignalState) => {
+    setNumPoints(state.numPoints);
+    setSampleRate(state.sampleRate);
+    setSignalSource(state.source);
+    setInputMode(state.inputMode);
+    updateSignal(state.signal);
+    setImagSignal(state.imagSignal);
+  }, [updateSignal]);
+
+  const history = useHistory(signalState, applySignalState, sameSignalState, sameSignalLayout);
+  const { undo, redo, reset: resetHistory } = history;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own native undo
+      const target = e.target as HTMLElement | null;
+      if (target instanceof HTMLTextAreaElement || target?.isContentEditable) return;
+      if (target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'button'].includes(target.type)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  const [snapshots, setSnapshots] = useState<SignalSnapshot[]>([]);
+  const [compareSnapshotId, setCompareSnapshotId] = useState<number | null>(null);
+  const nextSnapshotId = useRef(1);
+  const comparedSnapshot = snapshots.find(s => s.id === compareSnapshotId) ?? null;
+
+  const takeSnapshot = useCallback((name: string) => {
+    const snapshot = { id: nextSnapshotId.current++, name, createdAt: new Date().toISOString(), state: signalState };
+    setSnapshots(prev => [...prev, snapshot]);
+  }, [signalState]);
+
+  const deleteSnapshot = useCallback((id: number) => {
+    setSnapshots(prev => prev.filter(s => s.id !== id));
+    setCompareSnapshotId(prev => (prev === id ? null : prev));
+  }, []);
+
+  // A/B compare: the live app state is the active slot; the other one is parked here
+  const [activeSlot, setActiveSlot] = useState(CompareSlot.A);
+  const [parkedSlot, setParkedSlot] = useState<AnalysisSlot | null>(null);
+  const liveSlot = useMemo<AnalysisSlot>(
+    () => ({ state: signalState, window: windowSettings, twoSided: twoSidedSelected }),
+    [signalState, windowSettings, twoSidedSelected]
+  );
+  const compareSlots = useMemo(
+    () => (parkedSlot ? { [activeSlot]: liveSlot, [otherSlot(activeSlot)]: parkedSlot } as Record<CompareSlot, AnalysisSlot> : null),
+    [parkedSlot, activeSlot, liveSlot]
+  );
+
+  const toggleCompare = useCallback((enabled: boolean) => {
+    setParkedSlot(enabled ? liveSlot : null);
+    if (enabled) setActiveSlot(CompareSlot.A);
+  }, [liveSlot]);
+
+  const selectSlot = useCallback((slot: CompareSlot) => {
+    if (!parkedSlot || slot === activeSlot) return;
+    // Undo steps belong to one slot, so the history starts over from the restored one
+    setParkedSlot(liveSlot);
+    resetHistory(parkedSlot.state);
+    applySignalState(parkedSlot.state);
+    setWindowSettings(parkedSlot.window);
+    setTwoSidedSelected(parkedSlot.twoSided);
+    setActiveSlot(slot);
+  }, [parkedSlot, activeSlot, liveSlot, resetHistory, applySignalState]);
+
+  // The parked slot is analyzed with its own N, sample rate, window and sidedness, but the shared
+  // scale and pad factor, so A−B compares two spectra interpolated the same way
+  const parkedWindowed = useMemo(() => {
+    if (!parkedSlot) return null;
+    const { signal: re, imagSignal: im } = parkedSlot.state;
+    const shape = createWindow(parkedSlot.window, re.length);
+    const length = re.length * padFactor;
+    return {
+      n: re.length,
+      re: zeroPad(applyWindow(re, shape), length),
+      im: im ? zeroPad(applyWindow(im, shape), length) : null,
+      gain: coherentGain(shape),
+      noiseBandwidth: equivalentNoiseBandwidth(shape),
+      twoSided: parkedSlot.twoSided || im !== null,
+    };
+  }, [parkedSlot, padFactor]);
+  const parked = useSpectrum(parkedWindowed?.re ?? EMPTY_SIGNAL, parkedWindowed?.im ?? null, parkedWindowed);
+  const parkedSpectrum = parked.params === parkedWindowed ? parked.spectrum : EMPTY_SPECTRUM;
+  const parkedComponents = useMemo(() => {
+    if (!parkedSlot || !parkedWindowed || parkedSpectrum.length === 0) return null;
+    return extractComponents(parkedSpectrum, parkedWindowed.n, parkedWindowed.gain, parkedSlot.state.sampleRate, parkedWindowed.twoSided);
+  }, [parkedSlot, parkedWindowed, parkedSpectrum]);
+  const parkedValues = useMemo(() => {
+    if (!parkedComponents || !parkedSlot || !parkedWindowed) return null;
+    return scaleSpectrum(parkedComponents, spectrumScale, {
+      n: parkedWindowed.n,
+      fftLength: parkedSpectrum.length,
+      sampleRate: parkedSlot.state.sampleRate,
+      twoSided: parkedWindowed.twoSided,
+      noiseBandwidth: parkedWindowed.noiseBandwidth,
+    });
+  }, [parkedComponents, parkedSlot, parkedWindowed, parkedSpectrum.length, spectrumScale]);
+  const parkedHeights = useMemo(() => {
+    if (!parkedComponents || !parkedValues || spectrumScale.scale === SpectrumScale.AMPLITUDE) return null;
+    const heights = normalizeSpectrum(parkedValues, spectrumScale, spectrumMax);
+    return new Map(parkedComponents.map((c, i) => [c.bin, heights[i]]));
+  }, [parkedComponents, parkedValues, spectrumScale, spectrumMax]);
+
+  const compareCurves = useMemo(() => {
+    if (!parkedComponents || !parkedValues) return null;
+    const live: SpectrumCurve = { components, values: spectrumValues };
+    const parked: SpectrumCurve = { components: parkedComponents, values: parkedValues };
+    return activeSlot === CompareSlot.A ? { a: live, b: parked } : { a: parked, b: live };
+  }, [components, spectrumValues, parkedComponents, parkedValues, activeSlot]);
 
   return (
     <div className="flex flex-col h-screen w-screen overflow-hidden bg-slate-950">
@@ -127,6 +501,36 @@ const App: React.FC = () => {
           >
             3D EXPLORER
           </button>
+          <button
+            onClick={() => setActiveTab('spectrogram')}
+            className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${activeTab === 'spectrogram' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            SPECTROGRAM
+          </button>
+          <button
+            onClick={() => setActiveTab('sampling')}
+            className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${activeTab === 'sampling' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            SAMPLING
+          </button>
+          <button
+            onClick={() => setActiveTab('convolution')}
+            className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${activeTab === 'convolution' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            CONVOLUTION
+          </button>
+          <button
+            onClick={() => setActiveTab('epicycles')}
+            className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${activeTab === 'epicycles' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            EPICYCLES
+          </button>
+          <button
+            onClick={() => setActiveTab('image')}
+            className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${activeTab === 'image' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            IMAGE 2D
+          </button>
           <button
             onClick={() => setActiveTab('steps')}
             className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${activeTab === 'steps' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20' : 'text-slate-400 hover:text-slate-200'}`}
@@ -159,6 +563,77 @@ const App: React.FC = () => {
                     </button>
                   ))}
                 </div>
+                <label className="flex items-center justify-between mt-3">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase">Any N ({MIN_POINTS}–{MAX_POINTS})</span>
+                  <input
+                    type="number"
+                    min={MIN_POINTS}
+                    max={MAX_POINTS}
+                    step={1}
+                    value={pointsDraft ?? numPoints}
+                    onChange={(e) => setPointsDraft(e.target.value)}
+                    onBlur={commitPointsDraft}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitPointsDraft();
+                      if (e.key === 'Escape') setPointsDraft(null);
+                    }}
+                    className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 font-mono text-xs text-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                <div className="flex items-center justify-between mt-4 mb-2">
+                  <span className="text-xs text-slate-400 font-medium">Zero-padding</span>
+                  <span className="text-xs font-mono font-bold text-blue-400 bg-blue-400/10 px-2 py-0.5 rounded">FFT length {fftLength}</span>
+                </div>
+                <div className="grid grid-cols-5 gap-1.5">
+                  {PADDING_OPTIONS.map(factor => (
+                    <button
+                      key={factor}
+                      onClick={() => setPadFactor(factor)}
+                      className={`py-2 text-[10px] font-black rounded-lg transition-all border ${padFactor === factor ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600 hover:text-slate-300'}`}
+                    >
+                      ×{factor}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2 mt-4">
+                  <label className="space-y-1">
+                    <span className="text-[10px] font-bold text-slate-500 uppercase">Sample Rate (Hz)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={sampleRate}
+                      onChange={(e) => {
+                        const next = Number(e.target.value);
+                        if (next > 0 && isFinite(next)) setSampleRate(next);
+                      }}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 font-mono text-xs text-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[10px] font-bold text-slate-500 uppercase">Duration (s)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={parseFloat(duration.toPrecision(6))}
+                      onChange={(e) => {
+                        const next = Number(e.target.value);
+                        if (next > 0 && isFinite(next)) setSampleRate(numPoints / next);
+                      }}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 font-mono text-xs text-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                </div>
+                <div className="flex justify-between mt-3 text-[9px] font-bold text-slate-500 uppercase tracking-tighter">
+                  <span>Δf = fs/N = {formatFrequency(sampleRate / numPoints, 3)}</span>
+                  <span>Δt = {formatTime(1 / sampleRate, 3)}</span>
+                </div>
+                {padFactor > 1 && (
+                  <p className="mt-2 text-[9px] font-bold text-slate-500 uppercase tracking-tighter">
+                    Bin spacing fs/{fftLength} = {formatFrequency(sampleRate / fftLength, 3)} · resolution still {formatFrequency(sampleRate / numPoints, 3)}
+                  </p>
+                )}
               </div>
             </section>
 
@@ -167,73 +642,324 @@ const App: React.FC = () => {
               <SignalInput
                 signal={signal}
                 numPoints={numPoints}
+                sampleRate={sampleRate}
                 onSignalUpdate={updateSignal}
+                onSampleRateChange={setSampleRate}
+                onImagUpdate={setImagSignal}
                 currentMode={inputMode}
                 onModeChange={setInputMode}
+                source={signalSource}
+                onSourceChange={setSignalSource}
+                onEditStart={history.beginGesture}
+                onEditEnd={history.endGesture}
+              />
+            </section>
+
+            {activeTab === 'convolution' && (
+              <section>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Second Signal h[n]</h2>
+                  <div className="flex space-x-1">
+                    {SECOND_POINT_OPTIONS.map(m => (
+                      <button
+                        key={m}
+                        onClick={() => setSecondPoints(m)}
+                        className={`px-1.5 py-0.5 text-[10px] font-mono rounded ${secondPoints === m ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                      >
+                        {m}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <SignalInput
+                  signal={secondSignal}
+                  numPoints={secondPoints}
+                  sampleRate={sampleRate}
+                  onSignalUpdate={setSecondSignal}
+                  onSampleRateChange={ignoreSampleRate}
+                  onImagUpdate={setSecondImag}
+                  currentMode={secondMode}
+                  onModeChange={setSecondMode}
+                  source={secondSource}
+                  onSourceChange={setSecondSource}
+                />
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">History</h2>
+              <HistoryPanel
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={undo}
+                onRedo={redo}
+                signal={signal}
+                snapshots={snapshots}
+                onSnapshot={takeSnapshot}
+                onRestore={(snapshot) => applySignalState(snapshot.state)}
+                onDelete={deleteSnapshot}
+                compareId={compareSnapshotId}
+                onCompare={setCompareSnapshotId}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Compare</h2>
+              <ComparePanel
+                slots={compareSlots}
+                activeSlot={activeSlot}
+                onToggle={toggleCompare}
+                onSelect={selectSlot}
+                onCopy={() => setParkedSlot(liveSlot)}
               />
             </section>
 
             <section>
-              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Spectrum Magnitude</h2>
-              <div className="bg-slate-950/50 rounded-2xl p-5 border border-slate-800">
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Window Function</h2>
+              <WindowPanel
+                settings={windowSettings}
+                onSettingsChange={setWindowSettings}
+                signal={signal}
+                windowedSignal={windowedSignal}
+                windowShape={windowShape}
+                gain={windowGain}
+                showComparison={showUnwindowed}
+                onShowComparisonChange={setShowUnwindowed}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Reconstruction</h2>
+              <ReconstructionPanel
+                mode={reconstructionMode}
+                onModeChange={setReconstructionMode}
+                count={reconstructionCount}
+                maxCount={baseComponents.length}
+                onCountChange={setReconstructionCount}
+                activeCount={activeBins?.size ?? baseComponents.length}
+                totalCount={baseComponents.length}
+                stats={reconstructionStats}
+                onEnableAll={() => setDisabledBins(new Set())}
+                onDisableAll={() => setDisabledBins(new Set(baseComponents.map(c => c.bin)))}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Filter</h2>
+              <FilterPanel
+                settings={filterSettings}
+                onSettingsChange={setFilterSettings}
+                sampleRate={sampleRate}
+                signal={signal}
+                filteredSignal={filtered?.signal ?? null}
+                taps={filterTaps}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Export</h2>
+              <ExportMenu
+                signal={{ signal, imagSignal, sampleRate }}
+                spectrum={{
+                  components,
+                  fftData: fftResult,
+                  scale: spectrumScale.scale,
+                  scaledValues: spectrumValues,
+                  sampleRate,
+                  numPoints: signal.length,
+                  fftLength: fftResult.length,
+                  window: WINDOW_LABELS[windowSettings.type],
+                }}
+                reconstruction={reconstruction}
+                scene={sceneHandle}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4 flex items-center justify-between">
+                <span>Spectrum {SPECTRUM_SCALE_LABELS[spectrumScale.scale]}</span>
+                <span className="flex items-center space-x-3 normal-case tracking-normal">
+                  {analysisPending && <span className="text-blue-400 animate-pulse">Analyzing…</span>}
+                  {analysisError && <span className="text-rose-400" title={analysisError}>Analysis failed</span>}
+                  <label className={`flex items-center space-x-1 ${isComplex ? 'text-slate-600' : 'text-slate-400'}`} title={isComplex ? 'Complex input always uses the two-sided spectrum' : undefined}>
+                    <input
+                      type="checkbox"
+                      checked={twoSided}
+                      disabled={isComplex}
+                      onChange={(e) => setTwoSidedSelected(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    <span>Two-sided</span>
+                  </label>
+                  <label className="flex items-center space-x-1 text-slate-400" title="Show the copies of the spectrum beyond Nyquist that sampling creates">
+                    <input
+                      type="checkbox"
+                      checked={showImages}
+                      onChange={(e) => setShowImages(e.target.checked)}
+                      className="accent-rose-500"
+                    />
+                    <span>Images</span>
+                  </label>
+                </span>
+              </h2>
+              <div className="bg-slate-950/50 rounded-2xl p-5 border border-slate-800 space-y-3">
+                <div className="grid grid-cols-4 gap-1 bg-slate-900 p-1 rounded-lg">
+                  {Object.values(SpectrumScale).map(scale => (
+                    <button
+                      key={scale}
+                      onClick={() => setSpectrumScale({ ...spectrumScale, scale })}
+                      className={`py-1.5 rounded-md text-[10px] font-bold transition-all ${spectrumScale.scale === scale
+                          ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                          : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                        }`}
+                    >
+                      {scale === SpectrumScale.PSD ? 'PSD' : SPECTRUM_SCALE_LABELS[scale]}
+                    </button>
+                  ))}
+                </div>
+                {spectrumScale.scale === SpectrumScale.DB && (
+                  <div className="grid grid-cols-2 gap-2 text-[10px] font-bold uppercase text-slate-400">
+                    <label className="flex items-center justify-between space-x-2">
+                      <span>0 dB at</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={spectrumScale.dbReference}
+                        onChange={(e) => {
+                          const dbReference = Number(e.target.value);
+                          if (dbReference > 0) setSpectrumScale({ ...spectrumScale, dbReference });
+                        }}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                      />
+                    </label>
+                    <label className="flex items-center justify-between space-x-2">
+                      <span>Floor</span>
+                      <input
+                        type="number"
+                        max={-10}
+                        step={10}
+                        value={spectrumScale.dbFloor}
+                        onChange={(e) => {
+                          const dbFloor = Number(e.target.value);
+                          if (Number.isFinite(dbFloor) && dbFloor < 0) setSpectrumScale({ ...spectrumScale, dbFloor });
+                        }}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                      />
+                    </label>
+                  </div>
+                )}
 
                 {components.length === 0 ? (
                   <div className="h-32 w-full flex items-center justify-center text-slate-500 text-xs italic">
                     No signal data
                   </div>
                 ) : (
-                  <div className="h-32 w-full flex items-end space-x-0.5 border-b border-slate-800 pb-1 overflow-x-auto custom-scrollbar">
-                    {components.map((c, i) => (
-                      <div
-                        key={i}
-                        style={{ height: `${Math.max(2, Math.min(c.amplitude * 100, 100))}%` }}
-                        className="flex-1 min-w-[3px] bg-gradient-to-t from-blue-600 via-blue-400 to-cyan-400 rounded-t-sm opacity-80 hover:opacity-100 transition-opacity group relative shrink-0"
-                      >
-                        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 bg-slate-800 text-[9px] font-bold px-2 py-1 rounded-md hidden group-hover:block whitespace-nowrap z-50 border border-slate-700 shadow-xl pointer-events-none">
-                          {c.frequency}Hz: {c.amplitude.toFixed(3)}
-                        </div>
-                      </div>
-                    ))}
+                  <SpectrumBars
+                    components={components}
+                    heights={spectrumHeights}
+                    values={spectrumValues}
+                    scale={spectrumScale.scale}
+                    padFactor={padFactor}
+                    activeBins={activeBins}
+                    selectable={reconstructionMode === ReconstructionMode.MANUAL}
+                    onToggle={toggleBin}
+                  />
+                )}
+                {twoSided ? (
+                  <div className="flex justify-between text-[9px] font-bold text-slate-600 uppercase tracking-tighter">
+                    <span>−{formatFrequency(sampleRate / 2)}</span>
+                    <span>DC</span>
+                    <span>+{formatFrequency(sampleRate / 2)}</span>
+                  </div>
+                ) : (
+                  <div className="flex justify-between text-[9px] font-bold text-slate-600 uppercase tracking-tighter">
+                    <span>DC</span>
+                    <span>Nyquist ({formatFrequency(sampleRate / 2)})</span>
                   </div>
                 )}
-                <div className="flex justify-between mt-2 text-[9px] font-bold text-slate-600 uppercase tracking-tighter">
-                  <span>DC</span>
-                  <span>Nyquist ({(signal.length / 2).toFixed(0)}Hz)</span>
-                </div>
+                {compareCurves && (
+                  <CompareSpectrum a={compareCurves.a} b={compareCurves.b} scale={spectrumScale.scale} />
+                )}
               </div>
             </section>
+
+            <section>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Phase Spectrum</h2>
+              <PhasePanel
+                settings={phaseSettings}
+                onSettingsChange={setPhaseSettings}
+                points={phasePoints}
+                minFrequency={twoSided ? -sampleRate / 2 : 0}
+                maxFrequency={sampleRate / 2}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Share & Workspaces</h2>
+              <WorkspacePanel getSession={getSession} onLoad={applySession} />
+            </section>
           </div>
         </aside>
 
         {/* Viewport Area */}
         <section className="flex-1 bg-slate-950 relative overflow-hidden flex flex-col">
           {activeTab === '3d' ? (
-            <Visualizer3D signal={signal} components={components} />
+            <Visualizer3D
+              signal={signal}
+              imagSignal={imagSignal}
+              twoSided={twoSided}
+              sampleRate={sampleRate}
+              components={components}
+              padFactor={padFactor}
+              barHeights={barHeights}
+              comparisonHeights={comparisonHeights}
+              spectrumLabel={SPECTRUM_SCALE_LABELS[spectrumScale.scale].toUpperCase()}
+              phasePoints={phaseSettings.showWall ? phasePoints : null}
+              phaseUnwrapped={phaseSettings.unwrapped}
+              comparisonComponents={unwindowedComponents}
+              reconstruction={reconstruction}
+              activeBins={activeBins}
+              baseComponents={baseComponents}
+              playheadTarget={playheadTarget}
+              reconstructionStats={reconstructionStats}
+              filteredSignal={filtered?.signal ?? null}
+              filterGains={filterGains}
+              snapshotSignal={comparedSnapshot?.state.signal ?? null}
+              snapshotLabel={comparedSnapshot?.name}
+              compareComponents={parkedComponents}
+              compareHeights={parkedHeights}
+              compareSignal={parkedSlot?.state.signal ?? null}
+              compareLabel={otherSlot(activeSlot)}
+              showImages={showImages}
+              cameraPose={cameraPose}
+              onCameraChange={setCameraPose}
+              onSceneReady={setSceneHandle}
+            />
+          ) : activeTab === 'spectrogram' ? (
+            <Spectrogram3D signal={signal} sampleRate={sampleRate} />
+          ) : activeTab === 'sampling' ? (
+            <SamplingView
+              inputMode={inputMode}
+              source={signalSource}
+              onSourceChange={setSignalSource}
+              numPoints={numPoints}
+              sampleRate={sampleRate}
+            />
+          ) : activeTab === 'convolution' ? (
+            <ConvolutionWorkspace
+              signal={signal}
+              imagSignal={imagSignal}
+              secondSignal={secondSignal}
+              secondImag={secondImag}
+              sampleRate={sampleRate}
+            />
+          ) : activeTab === 'epicycles' ? (
+            <EpicycleView components={baseComponents} n={signal.length} twoSided={twoSided} />
+          ) : activeTab === 'image' ? (
+            <ImageFftView />
           ) : (
-            <div className="w-full h-full p-8 overflow-y-auto custom-scrollbar bg-slate-950">
-              <div className="max-w-3xl mx-auto space-y-16 py-12">
-                <header className="text-center space-y-2">
-                  <h2 className="text-4xl font-black text-white tracking-tight">Understanding the Math</h2>
-                  <p className="text-slate-500 font-medium">The journey from Time to Frequency</p>
-                </header>
-
-                <div className="grid gap-8">
-                  {[
-                    { step: 1, title: "Correlation", color: "blue", desc: "The algorithm compares your signal to pure sine waves. A high 'match' score means that frequency exists in your sound." },
-                    { step: 2, title: "Binning", color: "cyan", desc: "Results are placed into 'bins' ordered by frequency. In 3D, these bins are arranged along the Depth (Z) axis." },
-                    { step: 3, title: "Magnitude", color: "emerald", desc: "We calculate the absolute power of each bin. This tells us the volume of each harmonic component." }
-                  ].map((s) => (
-                    <div key={s.step} className="bg-slate-900/50 p-8 rounded-3xl border border-slate-800 flex items-start space-x-8 transition-transform hover:scale-[1.01]">
-                      <div className={`w-14 h-14 rounded-2xl bg-${s.color}-600/10 text-${s.color}-500 flex items-center justify-center text-3xl font-black shrink-0 border border-${s.color}-500/20`}>{s.step}</div>
-                      <div className="space-y-2">
-                        <h3 className="text-xl font-bold text-white">{s.title}</h3>
-                        <p className="text-slate-400 leading-relaxed text-sm font-medium">{s.desc}</p>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </div>
+            <ProcessTab signal={signal} imagSignal={imagSignal} sampleRate={sampleRate} />
           )}
         </section>
       </main>
@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { SpectrumScale, WindowType } from './types';
+import { DEFAULT_PEAK_FLOOR_DB, analyzeSignal, findPeaks } from './services/analysis';
+import { SpectrumExport, peaksToCsv, spectrumToCsv, spectrumToJson } from './services/dataExport';
+import { parseSignalCsv } from './services/dataImport';
+import { parseWav } from './services/wav';
+import { WINDOW_LABELS } from './services/window';
+import { formatFrequency } from './services/units';
+
+/**
+ * Command line entry for batch analysis. It runs services/analysis.ts, the
+ * same chain as the app, and writes the app's own CSV/JSON export formats.
+ */
+
+const USAGE = `Usage:
+  fft-explorer analyze <input.csv|input.wav> [options]   Spectrum as JSON or CSV
+  fft-explorer peaks <input.csv|input.wav> [options]     Strongest spectral peaks
+
+Options:
+  --fs <hz>            Sample rate (needed for CSV without a time_s column; overrides WAV)
+  --window <name>      rectangular (default), hann, hamming, blackman, blackman-harris, flat-top, kaiser
+  --beta <value>       Kaiser window beta (default 8.6)
+  --pad <factor>       Zero-padding factor (default 1)
+  --two-sided          Two-sided spectrum (always on for complex input)
+  --iq                 Read a headerless two-column CSV as I/Q pairs (default: time, sample)
+  --scale <name>       amplitude (default), power, psd, db
+  --db-ref <value>     Amplitude that reads 0 dB (default 1)
+  --db-floor <db>      Lowest dB value (default -80)
+  --peaks <count>      Peaks to report (default 10)
+  --peak-floor <db>    Skip peaks further than this below the largest (default ${DEFAULT_PEAK_FLOOR_DB})
+  --format <json|csv>  Output format (default: from the --out extension, else json)
+  --out <file>         Write to a file instead of stdout
+  -h, --help           Show this help
+`;
+
+// Bad arguments: reported together with the usage text
+class UsageError extends Error {}
+
+const OPTIONS = {
+  fs: { type: 'string' },
+  window: { type: 'string', default: 'rectangular' },
+  beta: { type: 'string', default: '8.6' },
+  pad: { type: 'string', default: '1' },
+  'two-sided': { type: 'boolean', default: false },
+  iq: { type: 'boolean', default: false },
+  scale: { type: 'string', default: 'amplitude' },
+  'db-ref': { type: 'string', default: '1' },
+  'db-floor': { type: 'string', default: '-80' },
+  peaks: { type: 'string', default: '10' },
+  'peak-floor': { type: 'string', default: String(DEFAULT_PEAK_FLOOR_DB) },
+  format: { type: 'string' },
+  out: { type: 'string' },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+const toNumber = (name: string, text: string, valid: (value: number) => boolean = Number.isFinite) => {
+  const value = Number(text);
+  if (!valid(value)) throw new UsageError(`Invalid --${name}: ${text}`);
+  return value;
+};
+
+// "blackman-harris" → WindowType.BLACKMAN_HARRIS
+const toEnum = <T extends string>(name: string, text: string, values: T[]): T => {
+  const key = text.toUpperCase().replace(/-/g, '_');
+  const match = values.find(v => v === key);
+  if (!match) throw new UsageError(`Unknown --${name}: ${text}`);
+  return match;
+};
+
+function readSignal(file: string, fs: number | null, iq: boolean) {
+  const data = readFileSync(file);
+  if (extname(file).toLowerCase() === '.wav') {
+    const wav = parseWav(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+    return { signal: Array.from(wav.samples), imagSignal: null, sampleRate: fs ?? wav.sampleRate };
+  }
+  const parsed = parseSignalCsv(data.toString('utf8'), { iq });
+  const sampleRate = fs ?? parsed.sampleRate;
+  if (!sampleRate) throw new UsageError(`${file} has no time column; pass the sample rate with --fs`);
+  return { ...parsed, sampleRate };
+}
+
+function main(argv: string[]): void {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { positionals, values } = parsed;
+  const [command, input] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (command !== 'analyze' && command !== 'peaks') throw new UsageError(`Unknown command: ${command}`);
+  if (!input) throw new UsageError('Missing input file');
+
+  const fs = values.fs === undefined ? null : toNumber('fs', values.fs, v => v > 0);
+  const windowType = toEnum('window', values.window, Object.values(WindowType));
+  const scale = toEnum('scale', values.scale, Object.values(SpectrumScale));
+  const format = values.format ?? (values.out && extname(values.out).toLowerCase() === '.csv' ? 'csv' : 'json');
+  if (format !== 'csv' && format !== 'json') throw new UsageError(`Unknown --format: ${format}`);
+
+  const { signal, imagSignal, sampleRate } = readSignal(input, fs, values.iq);
+  if (signal.length < 2) throw new Error(`${input} holds fewer than 2 samples`);
+
+  const analysis = analyzeSignal(signal, imagSignal, {
+    sampleRate,
+    window: { type: windowType, kaiserBeta: toNumber('beta', values.beta, v => v >= 0) },
+    padFactor: toNumber('pad', values.pad, v => Number.isInteger(v) && v >= 1),
+    twoSided: values['two-sided'],
+    scale: {
+      scale,
+      dbReference: toNumber('db-ref', values['db-ref'], v => v > 0),
+      dbFloor: toNumber('db-floor', values['db-floor'], v => v < 0),
+    },
+  });
+  const peaks = findPeaks(
+    analysis,
+    toNumber('peaks', values.peaks, v => Number.isInteger(v) && v >= 0),
+    toNumber('peak-floor', values['peak-floor'], v => v <= 0)
+  );
+
+  const exported: SpectrumExport = {
+    components: analysis.components,
+    fftData: analysis.fftData,
+    scale,
+    scaledValues: analysis.values,
+    sampleRate,
+    numPoints: analysis.n,
+    fftLength: analysis.fftLength,
+    window: WINDOW_LABELS[windowType],
+    peaks,
+  };
+  let output: string;
+  if (command === 'analyze') {
+    output = format === 'csv' ? spectrumToCsv(exported) : spectrumToJson(exported);
+  } else {
+    output = format === 'csv'
+      ? peaksToCsv(peaks, scale)
+      : JSON.stringify({ sampleRate, numPoints: analysis.n, fftLength: analysis.fftLength, window: exported.window, scale, peaks }, null, 2) + '\n';
+  }
+
+  if (!values.out) {
+    process.stdout.write(output);
+    return;
+  }
+  writeFileSync(values.out, output);
+  const strongest = peaks[0] ? `, strongest peak at ${formatFrequency(peaks[0].frequency)}` : '';
+  const count = command === 'analyze' ? `${analysis.components.length} components` : `${peaks.length} peaks`;
+  process.stderr.write(`Wrote ${count} to ${values.out}${strongest}\n`);
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (err) {
+  process.stderr.write(`fft-explorer: ${err instanceof Error ? err.message : String(err)}\n`);
+  if (err instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+  process.exitCode = err instanceof UsageError ? 2 : 1;
+}
@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Butterfly, Complex } from '../types';
+import { traceFft } from '../services/fft';
+import { formatComplex } from '../services/units';
+
+interface ButterflyDiagramProps {
+  signal: number[];
+  imagSignal: number[] | null;
+}
+
+const SIZE_OPTIONS = [4, 8, 16, 32];
+const COLUMN_WIDTH = 130;
+const ROW_HEIGHT = 22;
+const MARGIN_LEFT = 60;
+const MARGIN_RIGHT = 60;
+const MARGIN_TOP = 20;
+const STAGE_MS = 1200;
+
+const magnitude = (c: Complex) => Math.hypot(c.re, c.im);
+
+/**
+ * Radix-2 decimation-in-time butterfly network for the first D samples of the
+ * signal. Column 0 holds the bit-reversed input; column s holds the row values
+ * after stage s. Stages after the current one are not computed yet.
+ */
+const ButterflyDiagram: React.FC<ButterflyDiagramProps> = ({ signal, imagSignal }) => {
+  const [requestedSize, setRequestedSize] = useState(8);
+  const [stage, setStage] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [selected, setSelected] = useState<Butterfly | null>(null);
+
+  const sizes = SIZE_OPTIONS.filter(s => s <= Math.max(signal.length, SIZE_OPTIONS[0]));
+  const size = Math.min(requestedSize, sizes[sizes.length - 1]);
+
+  const trace = useMemo(() => {
+    const real = Array.from({ length: size }, (_, i) => signal[i] || 0);
+    const imag = imagSignal ? Array.from({ length: size }, (_, i) => imagSignal[i] || 0) : null;
+    return traceFft(real, imag);
+  }, [signal, imagSignal, size]);
+
+  const stageCount = trace.stages.length;
+  const current = Math.min(stage, stageCount);
+  const columns = [trace.order.map(i => trace.input[i]), ...trace.stages.map(s => s.values)];
+  const peak = Math.max(1e-12, ...columns.flat().map(magnitude));
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setStage(prev => {
+        if (prev >= stageCount) {
+          setPlaying(false);
+          return prev;
+        }
+        return prev + 1;
+      });
+    }, STAGE_MS);
+    return () => clearInterval(timer);
+  }, [playing, stageCount]);
+
+  // The selection belongs to a stage of one trace; drop it when either changes
+  useEffect(() => setSelected(null), [trace, current]);
+
+  const width = MARGIN_LEFT + stageCount * COLUMN_WIDTH + MARGIN_RIGHT;
+  const height = MARGIN_TOP * 2 + (size - 1) * ROW_HEIGHT;
+  const colX = (c: number) => MARGIN_LEFT + c * COLUMN_WIDTH;
+  const rowY = (r: number) => MARGIN_TOP + r * ROW_HEIGHT;
+  const showValues = size <= 16;
+
+  const stageText = current === 0
+    ? `Bit reversal: row r holds x[rev(r)], so each half of the array is the even / odd samples of the half above it.`
+    : `Stage ${current}: ${size / trace.stages[current - 1].size} × ${trace.stages[current - 1].size}-point DFTs from pairs of ${trace.stages[current - 1].size / 2}-point DFTs, top ± W·bottom.`;
+
+  return (
+    <div className="bg-slate-900/50 p-6 rounded-3xl border border-slate-800 space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex bg-slate-900 p-1 rounded-lg">
+          {sizes.map(s => (
+            <button
+              key={s}
+              onClick={() => {
+                setRequestedSize(s);
+                setStage(0);
+                setPlaying(false);
+              }}
+              className={`px-3 py-1 rounded-md text-[10px] font-black uppercase transition-all ${size === s ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {s}-point
+            </button>
+          ))}
+        </div>
+        <div className="flex space-x-1">
+          <button
+            onClick={() => { setPlaying(false); setStage(Math.max(0, current - 1)); }}
+            disabled={current === 0}
+            className="px-3 py-1 text-[10px] font-bold uppercase rounded border border-slate-800 text-slate-400 hover:text-slate-200 disabled:opacity-30"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => { setPlaying(false); setStage(Math.min(stageCount, current + 1)); }}
+            disabled={current === stageCount}
+            className="px-3 py-1 text-[10px] font-bold uppercase rounded border border-slate-800 text-slate-400 hover:text-slate-200 disabled:opacity-30"
+          >
+            Step
+          </button>
+          <button
+            onClick={() => {
+              if (!playing && current >= stageCount) setStage(0);
+              setPlaying(!playing);
+            }}
+            className="px-3 py-1 text-[10px] font-black uppercase rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-all"
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+        </div>
+        <span className="text-[10px] font-mono text-slate-500">
+          Stage {current} / {stageCount} · first {size} samples{imagSignal ? ' (I/Q)' : ''}
+        </span>
+      </div>
+
+      <p className="text-xs text-slate-400">{stageText}</p>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <svg viewBox={`0 0 ${width} ${height}`} style={{ width, minWidth: '100%' }} className="bg-slate-950 rounded-lg border border-slate-800">
+          {trace.stages.map((s, index) => {
+            const column = index + 1;
+            const done = column <= current;
+            const active = column === current;
+            return s.butterflies.map(b => {
+              const isSelected = selected?.top === b.top && selected?.bottom === b.bottom && active;
+              const color = active ? (isSelected ? '#f59e0b' : '#3b82f6') : done ? '#475569' : '#1e293b';
+              return (
+                <g
+                  key={`${column}-${b.top}`}
+                  onClick={() => active && setSelected(b)}
+                  className={active ? 'cursor-pointer' : undefined}
+                >
+                  {[b.top, b.bottom].map(from => [b.top, b.bottom].map(to => (
+                    <line
+                      key={`${from}-${to}`}
+                      x1={colX(column - 1)}
+                      y1={rowY(from)}
+                      x2={colX(column)}
+                      y2={rowY(to)}
+                      stroke={color}
+                      strokeWidth={active ? 1.5 : 1}
+                      strokeDasharray={from === b.bottom && to === b.bottom ? '4 2' : undefined}
+                    />
+                  )))}
+                  {active && (
+                    <>
+                      {/* Wider invisible hit target */}
+                      <line x1={colX(column - 1)} y1={rowY(b.top)} x2={colX(column)} y2={rowY(b.bottom)} stroke="transparent" strokeWidth={10} />
+                      <text x={colX(column - 1) + 8} y={rowY(b.bottom) + 10} fontSize={8} fill="#f59e0b">
+                        W{s.size}^{b.twiddleIndex}
+                      </text>
+                    </>
+                  )}
+                </g>
+              );
+            });
+          })}
+
+          {columns.map((values, column) => values.map((v, row) => {
+            const known = column <= current;
+            const level = magnitude(v) / peak;
+            return (
+              <g key={`${column}-${row}`}>
+                <circle
+                  cx={colX(column)}
+                  cy={rowY(row)}
+                  r={4}
+                  fill={known ? '#3b82f6' : '#0f172a'}
+                  fillOpacity={known ? 0.25 + 0.75 * level : 1}
+                  stroke={known ? '#60a5fa' : '#334155'}
+                />
+                {known && showValues && column > 0 && (
+                  <text x={colX(column) + 7} y={rowY(row) - 4} fontSize={7} fill="#94a3b8" fontFamily="monospace">
+                    {formatComplex(v, 1)}
+                  </text>
+                )}
+              </g>
+            );
+          }))}
+
+          {trace.order.map((sample, row) => (
+            <text key={`in-${row}`} x={MARGIN_LEFT - 10} y={rowY(row) + 3} textAnchor="end" fontSize={9} fill="#94a3b8" fontFamily="monospace">
+              x[{sample}]
+            </text>
+          ))}
+          {current === stageCount && trace.order.map((_, row) => (
+            <text key={`out-${row}`} x={colX(stageCount) + 10} y={rowY(row) + 3} fontSize={9} fill="#a3e635" fontFamily="monospace">
+              X[{row}]
+            </text>
+          ))}
+        </svg>
+      </div>
+
+      {selected ? (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-[10px] font-mono">
+          {[
+            { label: `a = row ${selected.top}`, value: selected.inputs[0], color: 'text-blue-400' },
+            { label: `b = row ${selected.bottom}`, value: selected.inputs[1], color: 'text-blue-400' },
+            { label: `W = e^(−2πi·${selected.twiddleIndex}/${trace.stages[current - 1].size})`, value: selected.twiddle, color: 'text-amber-400' },
+            { label: 'a + W·b', value: selected.outputs[0], color: 'text-lime-400' },
+            { label: 'a − W·b', value: selected.outputs[1], color: 'text-lime-400' },
+          ].map(item => (
+            <div key={item.label} className="bg-slate-950 rounded-lg p-2 border border-slate-800">
+              <p className="text-slate-500 uppercase font-bold">{item.label}</p>
+              <p className={item.color}>{formatComplex(item.value, 3)}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        current > 0 && <p className="text-[10px] text-slate-500 italic">Click a highlighted butterfly to see its arithmetic.</p>
+      )}
+    </div>
+  );
+};
+
+export default ButterflyDiagram;
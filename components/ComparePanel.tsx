@@ -0,0 +1,63 @@
+import React from 'react';
+import { AnalysisSlot, CompareSlot } from '../types';
+import { WINDOW_LABELS } from '../services/window';
+import { otherSlot } from '../services/compare';
+import { formatFrequency } from '../services/units';
+
+interface ComparePanelProps {
+  slots: Record<CompareSlot, AnalysisSlot> | null; // Null while compare mode is off
+  activeSlot: CompareSlot; // The slot the rest of the sidebar edits
+  onToggle: (enabled: boolean) => void;
+  onSelect: (slot: CompareSlot) => void;
+  onCopy: () => void; // Copy the active slot over the other one
+}
+
+const SLOT_COLORS: Record<CompareSlot, string> = {
+  [CompareSlot.A]: 'bg-blue-600 border-blue-400',
+  [CompareSlot.B]: 'bg-orange-600 border-orange-400',
+};
+
+const ComparePanel: React.FC<ComparePanelProps> = ({ slots, activeSlot, onToggle, onSelect, onCopy }) => (
+  <div className="bg-slate-950/50 rounded-2xl p-4 border border-slate-800 space-y-3">
+    <button
+      onClick={() => onToggle(!slots)}
+      className={`w-full py-2 text-[10px] font-black uppercase rounded-lg border transition-all ${slots ? 'bg-orange-600 border-orange-400 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200'}`}
+    >
+      {slots ? 'Comparing A / B' : 'Compare A / B'}
+    </button>
+
+    {slots && (
+      <>
+        <div className="grid grid-cols-2 gap-2">
+          {[CompareSlot.A, CompareSlot.B].map(slot => {
+            const { state, window } = slots[slot];
+            return (
+              <button
+                key={slot}
+                onClick={() => onSelect(slot)}
+                className={`p-2 rounded-lg border text-left transition-all ${activeSlot === slot ? `${SLOT_COLORS[slot]} text-white` : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'}`}
+              >
+                <p className="text-xs font-black">{slot}{activeSlot === slot ? ' · editing' : ''}</p>
+                <p className="text-[10px] font-mono opacity-80">
+                  N {state.numPoints} · {formatFrequency(state.sampleRate)}
+                </p>
+                <p className="text-[10px] font-mono opacity-80">{WINDOW_LABELS[window.type]}</p>
+              </button>
+            );
+          })}
+        </div>
+        <button
+          onClick={onCopy}
+          className="w-full py-1.5 text-[10px] font-bold uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all"
+        >
+          Copy {activeSlot} → {otherSlot(activeSlot)}
+        </button>
+        <p className="text-[10px] text-slate-500 leading-relaxed">
+          The controls above and below edit slot {activeSlot}: its input, N, sample rate and window. Switching slots starts a fresh undo history.
+        </p>
+      </>
+    )}
+  </div>
+);
+
+export default ComparePanel;
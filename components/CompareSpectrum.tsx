@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { SpectrumScale } from '../types';
+import { SpectrumCurve, spectrumDifference } from '../services/compare';
+import { formatSpectrumValue } from '../services/spectrum';
+import { formatFrequency } from '../services/units';
+
+interface CompareSpectrumProps {
+  a: SpectrumCurve;
+  b: SpectrumCurve;
+  scale: SpectrumScale;
+}
+
+const PLOT_WIDTH = 300;
+const PLOT_HEIGHT = 80;
+const DIFF_HEIGHT = 50;
+const GRID_POINTS = 256;
+
+/**
+ * Spectra of slots A and B overlaid on their shared frequency range, with
+ * A − B underneath in the units of the selected scale.
+ */
+const CompareSpectrum: React.FC<CompareSpectrumProps> = ({ a, b, scale }) => {
+  const comparison = useMemo(() => spectrumDifference(a, b, GRID_POINTS), [a, b]);
+  if (!comparison) {
+    return <p className="text-[10px] text-slate-500 italic">A and B share no frequency range to compare.</p>;
+  }
+
+  const { frequencies, difference } = comparison;
+  const all = [...comparison.a, ...comparison.b];
+  const top = Math.max(...all);
+  const bottom = Math.min(0, ...all);
+  const range = top - bottom || 1;
+  const toX = (i: number) => (i / (frequencies.length - 1)) * PLOT_WIDTH;
+  const curve = (values: number[]) =>
+    values.map((v, i) => `${toX(i).toFixed(1)},${(PLOT_HEIGHT - 2 - ((v - bottom) / range) * (PLOT_HEIGHT - 4)).toFixed(1)}`).join(' ');
+
+  const reach = Math.max(1e-12, ...difference.map(Math.abs));
+  const diffCurve = difference
+    .map((v, i) => `${toX(i).toFixed(1)},${(DIFF_HEIGHT / 2 - (v / reach) * (DIFF_HEIGHT / 2 - 2)).toFixed(1)}`)
+    .join(' ');
+  const largest = difference.reduce((best, v, i) => (Math.abs(v) > Math.abs(difference[best]) ? i : best), 0);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px] font-bold uppercase">
+        <span><span className="text-blue-400">A</span> / <span className="text-orange-400">B</span> overlay</span>
+        <span className="font-mono text-slate-500 normal-case">
+          {formatFrequency(frequencies[0])}..{formatFrequency(frequencies[frequencies.length - 1])}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 bg-slate-900 rounded-lg border border-slate-800">
+        <polyline points={curve(comparison.a)} fill="none" stroke="#3b82f6" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <polyline points={curve(comparison.b)} fill="none" stroke="#fb923c" strokeWidth={1.5} strokeOpacity={0.85} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-bold uppercase">
+        <span className="text-rose-400">A − B</span>
+        <span className="font-mono text-slate-500 normal-case">
+          largest {formatSpectrumValue(difference[largest], scale)} at {formatFrequency(frequencies[largest])}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${DIFF_HEIGHT}`} preserveAspectRatio="none" className="w-full h-12 bg-slate-900 rounded-lg border border-slate-800">
+        <line x1={0} y1={DIFF_HEIGHT / 2} x2={PLOT_WIDTH} y2={DIFF_HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <polyline points={diffCurve} fill="none" stroke="#f43f5e" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+    </div>
+  );
+};
+
+export default CompareSpectrum;
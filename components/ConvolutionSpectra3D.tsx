@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { Complex } from '../types';
+import { formatFrequency } from '../services/units';
+import { SafeLine, Label } from './SceneHelpers';
+
+interface ConvolutionSpectra3DProps {
+  x: Complex[];
+  h: Complex[];
+  product: Complex[];
+  productLabel: string;
+  twoSided: boolean; // Complex inputs need negative frequencies too
+  sampleRate: number;
+}
+
+const heightScale = 4;
+const maxZ = 12;
+const WALL_SPACING = 7;
+// Above this many bins, walls are drawn as an envelope only
+const MAX_BARS = 128;
+
+interface Wall {
+  label: string;
+  color: string;
+  values: Complex[];
+}
+
+/**
+ * Magnitudes in display order (DC..Nyquist, or fftshifted for two-sided),
+ * normalized to their own peak.
+ */
+const wallHeights = (values: Complex[], twoSided: boolean) => {
+  const n = values.length;
+  const half = Math.floor(n / 2);
+  const bins = twoSided
+    ? Array.from({ length: n }, (_, i) => (i + n - half) % n)
+    : Array.from({ length: half + 1 }, (_, i) => i);
+  const magnitudes = bins.map(k => Math.hypot(values[k].re, values[k].im));
+  const peak = Math.max(...magnitudes, 0);
+  return magnitudes.map(m => (peak > 0 ? m / peak : 0));
+};
+
+const SpectrumWall = ({ wall, x, twoSided }: { wall: Wall; x: number; twoSided: boolean }) => {
+  const heights = useMemo(() => wallHeights(wall.values, twoSided), [wall.values, twoSided]);
+  const zOf = (i: number) => (heights.length > 1 ? (i / (heights.length - 1)) * maxZ : 0);
+  const envelope = useMemo(
+    () => heights.map((h, i) => new THREE.Vector3(x, h * heightScale, zOf(i))),
+    [heights, x]
+  );
+
+  return (
+    <group>
+      <mesh position={[x - 0.01, heightScale / 2, maxZ / 2]} rotation={[0, -Math.PI / 2, 0]}>
+        <planeGeometry args={[maxZ + 1, heightScale + 1]} />
+        <meshStandardMaterial color="#0f172a" transparent opacity={0.4} metalness={0.8} roughness={0.2} />
+      </mesh>
+      {heights.length <= MAX_BARS && heights.map((h, i) => (
+        <SafeLine
+          key={i}
+          points={[new THREE.Vector3(x, 0, zOf(i)), new THREE.Vector3(x, h * heightScale, zOf(i))]}
+          color={wall.color}
+          lineWidth={4}
+        />
+      ))}
+      <SafeLine points={envelope} color={wall.color} lineWidth={1.5} opacity={heights.length <= MAX_BARS ? 0.5 : 1} />
+      <Label position={[x, heightScale + 0.8, maxZ / 2]} text={wall.label} color={wall.color} bold />
+    </group>
+  );
+};
+
+const ConvolutionSpectra3D: React.FC<ConvolutionSpectra3DProps> = ({ x, h, product, productLabel, twoSided, sampleRate }) => {
+  const walls: Wall[] = [
+    { label: 'X[k]', color: '#3b82f6', values: x },
+    { label: 'H[k]', color: '#f59e0b', values: h },
+    { label: productLabel, color: '#a3e635', values: product },
+  ];
+  const nyquist = sampleRate / 2;
+
+  return (
+    <Canvas camera={{ position: [22, 10, 16], fov: 40 }} gl={{ antialias: true }}>
+      <ambientLight intensity={1.5} />
+      <pointLight position={[10, 10, 10]} intensity={2.5} />
+      {walls.map((wall, i) => (
+        <SpectrumWall key={wall.label} wall={wall} x={(i - 1) * WALL_SPACING} twoSided={twoSided} />
+      ))}
+      <Label position={[WALL_SPACING + 1.2, -0.6, 0]} text={twoSided ? formatFrequency(-nyquist) : '0Hz'} color="#94a3b8" />
+      <Label position={[WALL_SPACING + 1.2, -0.6, maxZ]} text={formatFrequency(nyquist)} color="#94a3b8" />
+      <Label position={[0, -1.5, maxZ / 2]} text={`EACH WALL NORMALIZED TO ITS PEAK · ${x.length}-POINT DFT`} color="#64748b" bold />
+      <OrbitControls makeDefault minDistance={5} maxDistance={50} target={[0, 1.5, maxZ / 2]} />
+    </Canvas>
+  );
+};
+
+export default ConvolutionSpectra3D;
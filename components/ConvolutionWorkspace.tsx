@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { Complex, ConvolutionOperation } from '../types';
+import {
+  CONVOLUTION_OPERATION_LABELS,
+  circularLag,
+  computeConvolution,
+  linearLength,
+  toComplex,
+} from '../services/convolution';
+import { nextPowerOfTwo } from '../services/fftCore';
+import ConvolutionSpectra3D from './ConvolutionSpectra3D';
+
+interface ConvolutionWorkspaceProps {
+  signal: number[]; // x[n], the main input
+  imagSignal: number[] | null;
+  secondSignal: number[]; // h[n] (or y[n] for correlation), from the second input
+  secondImag: number[] | null;
+  sampleRate: number;
+}
+
+const PLOT_WIDTH = 600;
+const PLOT_HEIGHT = 120;
+
+/**
+ * Plots values against their lag on a shared lag axis.
+ */
+const LagPlot = ({ series, lagRange, wrapFrom, title, detail }: {
+  series: { points: { lag: number; value: number }[]; color: string; dots?: boolean }[];
+  lagRange: [number, number];
+  wrapFrom: number | null; // Lags at or beyond this fold back onto the start in the FFT result
+  title: string;
+  detail: string;
+}) => {
+  const [minLag, maxLag] = lagRange;
+  const peak = Math.max(1e-12, ...series.flatMap(s => s.points.map(p => Math.abs(p.value))));
+  const toX = (lag: number) => (maxLag > minLag ? ((lag - minLag) / (maxLag - minLag)) * PLOT_WIDTH : PLOT_WIDTH / 2);
+  const toY = (value: number) => PLOT_HEIGHT / 2 - (value / peak) * (PLOT_HEIGHT / 2 - 4);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px] font-bold uppercase">
+        <span className="text-slate-400">{title}</span>
+        <span className="font-mono text-slate-500 normal-case">{detail}</span>
+      </div>
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-28 bg-slate-900 rounded-lg border border-slate-800">
+        {wrapFrom !== null && wrapFrom <= maxLag && (
+          <rect x={toX(wrapFrom)} y={0} width={PLOT_WIDTH - toX(wrapFrom)} height={PLOT_HEIGHT} fill="#f43f5e" fillOpacity={0.1} />
+        )}
+        <line x1={0} y1={PLOT_HEIGHT / 2} x2={PLOT_WIDTH} y2={PLOT_HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" />
+        {minLag < 0 && <line x1={toX(0)} y1={0} x2={toX(0)} y2={PLOT_HEIGHT} stroke="#334155" />}
+        {series.map((s, i) => (
+          s.dots
+            ? s.points.map(p => <circle key={`${i}-${p.lag}`} cx={toX(p.lag)} cy={toY(p.value)} r={2} fill={s.color} />)
+            : <polyline
+                key={i}
+                points={[...s.points].sort((a, b) => a.lag - b.lag).map(p => `${toX(p.lag).toFixed(1)},${toY(p.value).toFixed(1)}`).join(' ')}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={1.5}
+              />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const realPoints = (values: Complex[], lagOf: (i: number) => number) => values.map((c, i) => ({ lag: lagOf(i), value: c.re }));
+
+const ConvolutionWorkspace: React.FC<ConvolutionWorkspaceProps> = ({ signal, imagSignal, secondSignal, secondImag, sampleRate }) => {
+  const [operation, setOperation] = useState(ConvolutionOperation.CONVOLUTION);
+  const [requestedLength, setRequestedLength] = useState<number | null>(null); // Null follows N+M-1
+
+  const x = useMemo(() => toComplex(signal, imagSignal), [signal, imagSignal]);
+  const h = useMemo(() => toComplex(secondSignal, secondImag), [secondSignal, secondImag]);
+  const n = x.length;
+  const m = h.length;
+  const minLength = Math.max(n, m, 1);
+  const needed = linearLength(n, m);
+  const maxLength = nextPowerOfTwo(needed);
+  const fftLength = Math.min(maxLength, Math.max(minLength, requestedLength ?? needed));
+
+  const result = useMemo(() => computeConvolution(x, h, operation, fftLength), [x, h, operation, fftLength]);
+
+  const isComplex = !!imagSignal || !!secondImag;
+  const isConvolution = operation === ConvolutionOperation.CONVOLUTION;
+  const linearEnd = result.linearStart + result.linear.length - 1;
+  const lagRange: [number, number] = [Math.min(result.linearStart, 0), Math.max(linearEnd, fftLength - 1 + Math.min(result.linearStart, 0))];
+  const linearLag = (i: number) => i + result.linearStart;
+  const circularLagOf = (j: number) => circularLag(j, fftLength, result.linearStart);
+  const wraps = fftLength < needed;
+
+  const presets = [
+    { label: 'No padding', length: minLength },
+    { label: 'N+M−1', length: needed },
+    { label: 'Next 2ᵏ', length: maxLength },
+  ];
+
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-950">
+      <div className="flex-1 min-h-[280px] relative cursor-move">
+        <ConvolutionSpectra3D
+          x={result.spectra.x}
+          h={result.spectra.h}
+          product={result.spectra.product}
+          productLabel={isConvolution ? 'X·H' : 'X·H*'}
+          twoSided={isComplex}
+          sampleRate={sampleRate}
+        />
+        <div className="absolute top-4 left-4 bg-slate-900/95 backdrop-blur-md p-4 rounded-xl border border-slate-700/50 text-[10px] text-slate-300 shadow-2xl pointer-events-none space-y-1">
+          <p className="font-bold text-blue-400 uppercase tracking-wider text-xs border-b border-slate-800 pb-2 mb-2">Convolution Theorem</p>
+          <p><span className="font-mono text-slate-400">{isConvolution ? 'x ⊛ h ⟷ X·H' : 'x ⋆ h ⟷ X·H*'}</span></p>
+          <p className="text-slate-500">Spectra of the inputs zero-padded to L = {fftLength}</p>
+        </div>
+      </div>
+
+      <div className="shrink-0 max-h-[55%] overflow-y-auto custom-scrollbar border-t border-slate-800 p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex bg-slate-900 p-1 rounded-lg">
+            {[ConvolutionOperation.CONVOLUTION, ConvolutionOperation.CORRELATION].map(op => (
+              <button
+                key={op}
+                onClick={() => setOperation(op)}
+                className={`px-3 py-1 rounded-md text-[10px] font-black uppercase transition-all ${operation === op ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                {CONVOLUTION_OPERATION_LABELS[op]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-[240px] space-y-1">
+            <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+              <span>FFT length L</span>
+              <span className={`font-mono ${wraps ? 'text-rose-400' : 'text-lime-400'}`}>
+                {fftLength} {wraps ? `< N+M−1 = ${needed}: wraps around` : `≥ N+M−1 = ${needed}`}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={minLength}
+              max={maxLength}
+              value={fftLength}
+              onChange={(e) => setRequestedLength(Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <div className="flex space-x-1">
+            {presets.map(p => (
+              <button
+                key={p.label}
+                onClick={() => setRequestedLength(p.length)}
+                className={`px-2 py-1 text-[10px] font-bold uppercase rounded border ${fftLength === p.length ? 'border-blue-500 text-blue-300' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-[10px] text-slate-500 font-mono">
+          N = {n} · M = {m} · linear result has N+M−1 = {needed} {isConvolution ? 'samples' : 'lags'}
+          {isComplex && ' · real parts shown'}
+        </p>
+
+        <LagPlot
+          title={`Linear ${isConvolution ? 'convolution' : 'correlation'}: direct vs IFFT(${isConvolution ? 'X·H' : 'X·H*'})`}
+          detail={`max |difference| ${result.wrapError.toExponential(2)}`}
+          lagRange={lagRange}
+          wrapFrom={wraps ? (isConvolution ? fftLength : fftLength + result.linearStart) : null}
+          series={[
+            { points: realPoints(result.linear, linearLag), color: '#3b82f6' },
+            { points: realPoints(result.viaFft, circularLagOf), color: '#a3e635', dots: true },
+          ]}
+        />
+
+        <LagPlot
+          title={`Circular ${isConvolution ? 'convolution' : 'correlation'} (length ${fftLength}): direct vs IFFT`}
+          detail={`max |difference| ${result.theoremError.toExponential(2)}`}
+          lagRange={lagRange}
+          wrapFrom={null}
+          series={[
+            { points: realPoints(result.circular, circularLagOf), color: '#f59e0b' },
+            { points: realPoints(result.viaFft, circularLagOf), color: '#a3e635', dots: true },
+          ]}
+        />
+
+        <p className="text-[10px] text-slate-500 leading-relaxed">
+          Multiplying DFTs always gives the <span className="text-amber-400 font-bold">circular</span> result. It matches the
+          <span className="text-blue-400 font-bold"> linear</span> one only once both inputs are zero-padded to at least N+M−1 points;
+          with less padding the tail (shaded) folds back onto the first samples.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ConvolutionWorkspace;
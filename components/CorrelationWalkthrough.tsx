@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Complex } from '../types';
+import { formatComplex, formatFrequency } from '../services/units';
+
+interface CorrelationWalkthroughProps {
+  signal: number[];
+  imagSignal: number[] | null;
+  sampleRate: number;
+}
+
+const TIME_WIDTH = 480;
+const TIME_HEIGHT = 160;
+const PLANE_SIZE = 220;
+// Playback covers the whole record in about this many frames
+const PLAYBACK_FRAMES = 160;
+const FRAME_MS = 30;
+
+/**
+ * Step-by-step DFT of one bin: each sample is multiplied by the probe
+ * e^(-2πikn/N) and added to a running sum, drawn as a chain of phasors in the
+ * complex plane. The end of the chain is X[k].
+ */
+const CorrelationWalkthrough: React.FC<CorrelationWalkthroughProps> = ({ signal, imagSignal, sampleRate }) => {
+  const n = signal.length;
+  const [bin, setBin] = useState(3);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const k = Math.min(bin, Math.max(0, n - 1));
+  const current = Math.min(step, Math.max(0, n - 1));
+
+  // Running sums S[m] = Σ_{j≤m} x[j]·e^(-2πikj/N)
+  const walk = useMemo(() => {
+    const probes: Complex[] = [];
+    const products: Complex[] = [];
+    const sums: Complex[] = [];
+    let re = 0;
+    let im = 0;
+    for (let j = 0; j < n; j++) {
+      const angle = (-2 * Math.PI * k * j) / n;
+      const probe = { re: Math.cos(angle), im: Math.sin(angle) };
+      const xr = signal[j] || 0;
+      const xi = imagSignal?.[j] || 0;
+      const product = { re: xr * probe.re - xi * probe.im, im: xr * probe.im + xi * probe.re };
+      re += product.re;
+      im += product.im;
+      probes.push(probe);
+      products.push(product);
+      sums.push({ re, im });
+    }
+    const reach = Math.max(1e-9, ...sums.map(s => Math.hypot(s.re, s.im)));
+    const peak = Math.max(1e-9, ...signal.map(Math.abs), ...(imagSignal ?? []).map(Math.abs));
+    return { probes, products, sums, reach, peak };
+  }, [signal, imagSignal, n, k]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const stride = Math.max(1, Math.round(n / PLAYBACK_FRAMES));
+    const timer = setInterval(() => {
+      setStep(prev => {
+        if (prev >= n - 1) {
+          setPlaying(false);
+          return prev;
+        }
+        return Math.min(n - 1, prev + stride);
+      });
+    }, FRAME_MS);
+    return () => clearInterval(timer);
+  }, [playing, n]);
+
+  if (n === 0) return null;
+
+  const toX = (j: number) => (n > 1 ? (j / (n - 1)) * TIME_WIDTH : TIME_WIDTH / 2);
+  const toY = (v: number) => TIME_HEIGHT / 2 - (v / walk.peak) * (TIME_HEIGHT / 2 - 6);
+  const line = (values: number[]) => values.map((v, j) => `${toX(j).toFixed(1)},${toY(v).toFixed(1)}`).join(' ');
+
+  const planeScale = (PLANE_SIZE / 2 - 12) / walk.reach;
+  const planeX = (c: Complex) => PLANE_SIZE / 2 + c.re * planeScale;
+  const planeY = (c: Complex) => PLANE_SIZE / 2 - c.im * planeScale;
+  const path = (sums: Complex[]) => [{ re: 0, im: 0 }, ...sums].map(c => `${planeX(c).toFixed(1)},${planeY(c).toFixed(1)}`).join(' ');
+  const sum = walk.sums[current];
+  const total = walk.sums[n - 1];
+  const frequency = ((k <= n / 2 ? k : k - n) * sampleRate) / n;
+
+  return (
+    <div className="bg-slate-900/50 p-6 rounded-3xl border border-slate-800 space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex-1 min-w-[200px] space-y-1">
+          <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+            <span>Probe bin k</span>
+            <span className="font-mono text-amber-400">k = {k} · {formatFrequency(frequency)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={n - 1}
+            value={k}
+            onChange={(e) => setBin(Number(e.target.value))}
+            className="w-full accent-amber-500"
+          />
+        </div>
+        <div className="flex-1 min-w-[200px] space-y-1">
+          <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+            <span>Sample n</span>
+            <span className="font-mono text-blue-400">{current} / {n - 1}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={n - 1}
+            value={current}
+            onChange={(e) => {
+              setPlaying(false);
+              setStep(Number(e.target.value));
+            }}
+            className="w-full accent-blue-500"
+          />
+        </div>
+        <button
+          onClick={() => {
+            if (!playing && current >= n - 1) setStep(0);
+            setPlaying(!playing);
+          }}
+          className="px-4 py-2 text-[10px] font-black uppercase rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-all"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <svg viewBox={`0 0 ${TIME_WIDTH} ${TIME_HEIGHT}`} className="flex-[2] min-w-[280px] bg-slate-950 rounded-lg border border-slate-800">
+          <line x1={0} y1={TIME_HEIGHT / 2} x2={TIME_WIDTH} y2={TIME_HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" />
+          <polyline points={line(walk.probes.map(p => p.re * walk.peak))} fill="none" stroke="#f59e0b" strokeOpacity={0.5} strokeWidth={1} />
+          <polyline points={line(walk.probes.map(p => p.im * walk.peak))} fill="none" stroke="#f472b6" strokeOpacity={0.4} strokeDasharray="3 3" strokeWidth={1} />
+          <polyline points={line(signal)} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+          {walk.products.slice(0, current + 1).map((p, j) => (
+            <line key={j} x1={toX(j)} x2={toX(j)} y1={TIME_HEIGHT / 2} y2={toY(p.re)} stroke="#a3e635" strokeOpacity={0.5} strokeWidth={Math.max(1, TIME_WIDTH / n - 1)} />
+          ))}
+          <line x1={toX(current)} x2={toX(current)} y1={0} y2={TIME_HEIGHT} stroke="#e2e8f0" strokeOpacity={0.6} />
+        </svg>
+
+        <svg viewBox={`0 0 ${PLANE_SIZE} ${PLANE_SIZE}`} className="flex-1 min-w-[180px] max-w-[260px] bg-slate-950 rounded-lg border border-slate-800">
+          <line x1={0} y1={PLANE_SIZE / 2} x2={PLANE_SIZE} y2={PLANE_SIZE / 2} stroke="#334155" />
+          <line x1={PLANE_SIZE / 2} y1={0} x2={PLANE_SIZE / 2} y2={PLANE_SIZE} stroke="#334155" />
+          <text x={PLANE_SIZE - 4} y={PLANE_SIZE / 2 - 4} textAnchor="end" fontSize={9} fill="#64748b">Re</text>
+          <text x={PLANE_SIZE / 2 + 4} y={10} fontSize={9} fill="#64748b">Im</text>
+          <polyline points={path(walk.sums)} fill="none" stroke="#475569" strokeOpacity={0.4} strokeWidth={1} />
+          <polyline points={path(walk.sums.slice(0, current + 1))} fill="none" stroke="#a3e635" strokeWidth={1.5} />
+          <line x1={PLANE_SIZE / 2} y1={PLANE_SIZE / 2} x2={planeX(sum)} y2={planeY(sum)} stroke="#f59e0b" strokeWidth={2} />
+          <circle cx={planeX(sum)} cy={planeY(sum)} r={3} fill="#f59e0b" />
+        </svg>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-[10px] font-mono">
+        <div className="bg-slate-950 rounded-lg p-2 border border-slate-800">
+          <p className="text-slate-500 uppercase font-bold">x[{current}]</p>
+          <p className="text-blue-400">{formatComplex({ re: signal[current] || 0, im: imagSignal?.[current] || 0 }, 3)}</p>
+        </div>
+        <div className="bg-slate-950 rounded-lg p-2 border border-slate-800">
+          <p className="text-slate-500 uppercase font-bold">e^(−2πi·{k}·{current}/{n})</p>
+          <p className="text-amber-400">{formatComplex(walk.probes[current], 3)}</p>
+        </div>
+        <div className="bg-slate-950 rounded-lg p-2 border border-slate-800">
+          <p className="text-slate-500 uppercase font-bold">Running sum</p>
+          <p className="text-lime-400">{formatComplex(sum, 3)}</p>
+        </div>
+        <div className="bg-slate-950 rounded-lg p-2 border border-slate-800">
+          <p className="text-slate-500 uppercase font-bold">X[{k}] · |X|/N</p>
+          <p className="text-slate-200">{formatComplex(total, 2)} · {(Math.hypot(total.re, total.im) / n).toFixed(3)}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorrelationWalkthrough;
@@ -0,0 +1,424 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { ControlPoint, DrawConstraints, DrawSymmetry, DrawTool } from '../types';
+import { DRAW_SYMMETRY_LABELS, StrokePoint, applySymmetry, paintSegment, sampleSpline, writeSample } from '../services/drawing';
+
+interface DrawCanvasProps {
+  signal: number[];
+  onSignalUpdate: (signal: number[] | ((prev: number[]) => number[])) => void;
+  onEditStart?: () => void; // A stroke or control-point drag begins; everything until onEditEnd is one undo step
+  onEditEnd?: () => void;
+}
+
+const TOOL_LABELS: Record<DrawTool, string> = {
+  [DrawTool.BRUSH]: 'Brush',
+  [DrawTool.LINE]: 'Line',
+  [DrawTool.SPLINE]: 'Spline',
+};
+
+// Amplitude at the top edge of the canvas
+const RANGE_OPTIONS = [1, 2, 5, 10, 20];
+const HANDLE_RADIUS = 5; // CSS px
+const HIT_RADIUS = 10;
+
+type Gesture =
+  | { tool: DrawTool.BRUSH; pointerId: number; smoothed: StrokePoint; raw: StrokePoint }
+  | { tool: DrawTool.LINE; pointerId: number; start: StrokePoint; base: number[] }
+  | { tool: DrawTool.SPLINE; pointerId: number; point: number }; // Index of the dragged control point
+
+const DrawCanvas: React.FC<DrawCanvasProps> = ({ signal, onSignalUpdate, onEditStart, onEditEnd }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0, dpr: 1 });
+  const [tool, setTool] = useState(DrawTool.BRUSH);
+  const [brushWidth, setBrushWidth] = useState(3); // In samples
+  const [smoothing, setSmoothing] = useState(0); // 0 follows the pointer exactly; higher values lag behind and steady the stroke
+  const [range, setRange] = useState(1);
+  const [constraints, setConstraints] = useState<DrawConstraints>({ periodic: false, symmetry: DrawSymmetry.NONE });
+  const [controlPoints, setControlPoints] = useState<ControlPoint[]>([]);
+  // The signal the spline was first placed on; the spline region is rewritten from it on every change
+  const splineBase = useRef<number[] | null>(null);
+  const gesture = useRef<Gesture | null>(null);
+  const n = signal.length;
+
+  // Track the on-screen size so the backing store matches device pixels
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const measure = () => setSize({ width: canvas.clientWidth, height: canvas.clientHeight, dpr: window.devicePixelRatio || 1 });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    // Zooming the page or moving to another monitor changes the ratio without a resize
+    const media = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+    media.addEventListener('change', measure);
+    return () => {
+      observer.disconnect();
+      media.removeEventListener('change', measure);
+    };
+  }, [size.dpr]);
+
+  const toX = useCallback((index: number) => (n > 1 ? (index / (n - 1)) * size.width : size.width / 2), [n, size.width]);
+  const toY = useCallback((value: number) => ((range - value) / (2 * range)) * size.height, [range, size.height]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+    const pixelWidth = Math.round(size.width * size.dpr);
+    const pixelHeight = Math.round(size.height * size.dpr);
+    // Resizing the backing store clears it, so only do it when the size changes
+    if (canvas.width !== pixelWidth) canvas.width = pixelWidth;
+    if (canvas.height !== pixelHeight) canvas.height = pixelHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(size.dpr, 0, 0, size.dpr, 0, 0);
+    const { width, height } = size;
+    ctx.clearRect(0, 0, width, height);
+
+    // Amplitude grid with the zero line dashed
+    ctx.font = '9px ui-monospace, monospace';
+    ctx.fillStyle = '#475569';
+    ctx.textBaseline = 'middle';
+    for (const v of [range, range / 2, 0, -range / 2, -range]) {
+      const y = Math.min(height - 0.5, Math.max(0.5, toY(v)));
+      ctx.beginPath();
+      ctx.strokeStyle = v === 0 ? '#334155' : '#1e293b';
+      ctx.lineWidth = 1;
+      ctx.setLineDash(v === 0 ? [5, 5] : []);
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      if (v !== 0) ctx.fillText(String(v), 4, v > 0 ? y + 7 : y - 7);
+    }
+    ctx.setLineDash([]);
+
+    // Mirror axis at n/2
+    if (constraints.symmetry !== DrawSymmetry.NONE) {
+      ctx.beginPath();
+      ctx.strokeStyle = '#6d28d9';
+      ctx.setLineDash([2, 4]);
+      ctx.moveTo(toX(n / 2), 0);
+      ctx.lineTo(toX(n / 2), height);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.clip();
+    ctx.beginPath();
+    ctx.strokeStyle = '#3b82f6';
+    ctx.lineWidth = 2;
+    ctx.lineJoin = 'round';
+    signal.forEach((v, i) => {
+      if (i === 0) ctx.moveTo(toX(i), toY(v));
+      else ctx.lineTo(toX(i), toY(v));
+    });
+    ctx.stroke();
+    // Individual samples are visible when there is room for them
+    if (width / n >= 6) {
+      ctx.fillStyle = '#60a5fa';
+      signal.forEach((v, i) => ctx.fillRect(toX(i) - 1.5, toY(v) - 1.5, 3, 3));
+    }
+    ctx.restore();
+
+    if (tool === DrawTool.SPLINE) {
+      for (const p of controlPoints) {
+        ctx.beginPath();
+        ctx.arc(p.position * width, toY(p.value), HANDLE_RADIUS, 0, 2 * Math.PI);
+        ctx.fillStyle = '#0f172a';
+        ctx.fill();
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#f59e0b';
+        ctx.stroke();
+      }
+    }
+  }, [signal, size, range, tool, controlPoints, constraints.symmetry, n, toX, toY]);
+
+  const pointerPosition = (e: { clientX: number; clientY: number }): StrokePoint => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const u = (e.clientX - rect.left) / rect.width;
+    const value = range * (1 - (2 * (e.clientY - rect.top)) / rect.height);
+    // With a periodic record, strokes may leave the canvas and continue at the other end
+    const index = u * (n - 1);
+    return {
+      index: constraints.periodic ? index : Math.min(n - 1, Math.max(0, index)),
+      value: Math.min(range, Math.max(-range, value)),
+    };
+  };
+
+  const writeSpline = useCallback((points: ControlPoint[]) => {
+    const base = splineBase.current;
+    if (!base) return;
+    const samples = sampleSpline(points, base.length, constraints.periodic);
+    onSignalUpdate(() => {
+      const next = [...base];
+      for (const s of samples) writeSample(next, s.index, s.value, constraints);
+      return next;
+    });
+  }, [constraints, onSignalUpdate]);
+
+  const resetSpline = useCallback(() => {
+    setControlPoints([]);
+    splineBase.current = null;
+  }, []);
+
+  // Control points are stored as fractions of the record, but the base they rewrite must match its length
+  useEffect(() => {
+    if (splineBase.current && splineBase.current.length !== n) resetSpline();
+  }, [n, resetSpline]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (gesture.current || n < 2) return;
+    const canvas = e.currentTarget;
+    const point = pointerPosition(e);
+
+    if (tool === DrawTool.SPLINE) {
+      const rect = canvas.getBoundingClientRect();
+      const hit = controlPoints.findIndex(p => Math.hypot(
+        p.position * rect.width - (e.clientX - rect.left),
+        toY(p.value) - (e.clientY - rect.top)
+      ) <= HIT_RADIUS);
+      // Right-click (or a secondary button) removes a control point
+      if (e.button !== 0) {
+        if (hit >= 0) {
+          const next = controlPoints.filter((_, i) => i !== hit);
+          setControlPoints(next);
+          writeSpline(next);
+        }
+        return;
+      }
+      onEditStart?.();
+      canvas.setPointerCapture(e.pointerId);
+      if (!splineBase.current) splineBase.current = [...signal];
+      let next = controlPoints;
+      let index = hit;
+      if (hit < 0) {
+        next = [...controlPoints, { position: Math.min(1, Math.max(0, point.index / (n - 1))), value: point.value }];
+        index = next.length - 1;
+        setControlPoints(next);
+        writeSpline(next);
+      }
+      gesture.current = { tool, pointerId: e.pointerId, point: index };
+      return;
+    }
+
+    if (e.button !== 0) return;
+    onEditStart?.();
+    canvas.setPointerCapture(e.pointerId);
+    if (tool === DrawTool.LINE) {
+      gesture.current = { tool, pointerId: e.pointerId, start: point, base: [...signal] };
+      return;
+    }
+    gesture.current = { tool, pointerId: e.pointerId, smoothed: point, raw: point };
+    onSignalUpdate(prev => {
+      const next = [...prev];
+      paintSegment(next, point, point, brushWidth, constraints);
+      return next;
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const active = gesture.current;
+    if (!active || active.pointerId !== e.pointerId) return;
+
+    if (active.tool === DrawTool.SPLINE) {
+      const point = pointerPosition(e);
+      const next = controlPoints.map((p, i) => (
+        i === active.point ? { position: Math.min(1, Math.max(0, point.index / (n - 1))), value: point.value } : p
+      ));
+      setControlPoints(next);
+      writeSpline(next);
+      return;
+    }
+
+    if (active.tool === DrawTool.LINE) {
+      const end = pointerPosition(e);
+      onSignalUpdate(() => {
+        const next = [...active.base];
+        paintSegment(next, active.start, end, 1, constraints);
+        return next;
+      });
+      return;
+    }
+
+    // Coalesced events carry every position the pointer passed since the last frame
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const positions = (events.length > 0 ? events : [e.nativeEvent]).map(pointerPosition);
+    const follow = 1 - smoothing;
+    const segments: [StrokePoint, StrokePoint][] = [];
+    let smoothed = active.smoothed;
+    for (const raw of positions) {
+      const next = {
+        index: smoothed.index + (raw.index - smoothed.index) * follow,
+        value: smoothed.value + (raw.value - smoothed.value) * follow,
+      };
+      segments.push([smoothed, next]);
+      smoothed = next;
+    }
+    gesture.current = { ...active, smoothed, raw: positions[positions.length - 1] };
+    onSignalUpdate(prev => {
+      const next = [...prev];
+      for (const [from, to] of segments) paintSegment(next, from, to, brushWidth, constraints);
+      return next;
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const active = gesture.current;
+    if (!active || active.pointerId !== e.pointerId) return;
+    gesture.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    // A smoothed stroke trails the pointer; finish it where the pointer was released
+    if (active.tool === DrawTool.BRUSH && smoothing > 0) {
+      onSignalUpdate(prev => {
+        const next = [...prev];
+        paintSegment(next, active.smoothed, active.raw, brushWidth, constraints);
+        return next;
+      });
+    }
+    onEditEnd?.();
+  };
+
+  const changeTool = (next: DrawTool) => {
+    setTool(next);
+    resetSpline();
+  };
+
+  const changeSymmetry = (symmetry: DrawSymmetry) => {
+    setConstraints(prev => ({ ...prev, symmetry }));
+    resetSpline();
+    onSignalUpdate(prev => applySymmetry(prev, symmetry));
+  };
+
+  const fitRange = () => {
+    const peak = signal.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    setRange(RANGE_OPTIONS.find(r => r >= peak) ?? RANGE_OPTIONS[RANGE_OPTIONS.length - 1]);
+  };
+
+  const optionClass = (selected: boolean) => `flex-1 py-1 text-[10px] font-bold uppercase rounded-md transition-all ${selected ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-end mb-1">
+        <p className="text-xs text-slate-400 italic">
+          {tool === DrawTool.BRUSH && 'Drag to draw waveform'}
+          {tool === DrawTool.LINE && 'Drag to draw a straight line'}
+          {tool === DrawTool.SPLINE && 'Click to add points, drag to move, right-click to remove'}
+        </p>
+        <div className="flex space-x-3">
+          {tool === DrawTool.SPLINE && controlPoints.length > 0 && (
+            <button onClick={resetSpline} className="text-[10px] text-slate-500 hover:text-slate-300 uppercase font-bold">
+              Done
+            </button>
+          )}
+          <button
+            onClick={() => {
+              resetSpline();
+              onSignalUpdate(new Array(n).fill(0));
+            }}
+            className="text-[10px] text-slate-500 hover:text-slate-300 uppercase font-bold"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="flex space-x-1 bg-slate-900 p-1 rounded-lg">
+        {[DrawTool.BRUSH, DrawTool.LINE, DrawTool.SPLINE].map(t => (
+          <button key={t} onClick={() => changeTool(t)} className={optionClass(tool === t)}>{TOOL_LABELS[t]}</button>
+        ))}
+      </div>
+
+      <div className="relative bg-slate-900 border border-slate-700 rounded-lg overflow-hidden h-40">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onContextMenu={(e) => e.preventDefault()}
+          className="w-full h-full cursor-crosshair touch-none"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+            <span>Brush</span>
+            <span className="font-mono text-blue-400">{brushWidth} {brushWidth === 1 ? 'sample' : 'samples'}</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={16}
+            value={brushWidth}
+            onChange={(e) => setBrushWidth(Number(e.target.value))}
+            disabled={tool !== DrawTool.BRUSH}
+            className="w-full accent-blue-500 disabled:opacity-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+            <span>Smoothing</span>
+            <span className="font-mono text-blue-400">{Math.round(smoothing * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={0.9}
+            step={0.05}
+            value={smoothing}
+            onChange={(e) => setSmoothing(Number(e.target.value))}
+            disabled={tool !== DrawTool.BRUSH}
+            className="w-full accent-blue-500 disabled:opacity-40"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-slate-400 uppercase">Range ±</span>
+        <div className="flex items-center space-x-1">
+          {RANGE_OPTIONS.map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2 py-0.5 text-[10px] font-mono rounded ${range === r ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {r}
+            </button>
+          ))}
+          <button onClick={fitRange} className="px-2 py-0.5 text-[10px] font-bold uppercase text-slate-500 hover:text-slate-300">Fit</button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2 text-[10px] font-bold uppercase text-slate-400">
+          <input
+            type="checkbox"
+            checked={constraints.periodic}
+            onChange={(e) => {
+              setConstraints(prev => ({ ...prev, periodic: e.target.checked }));
+              resetSpline();
+            }}
+            className="accent-blue-500"
+          />
+          <span>Periodic wrap</span>
+        </label>
+        <div className="flex items-center space-x-1" title="Symmetry about n = 0: even signals have a real spectrum, odd ones a purely imaginary spectrum">
+          <span className="text-[10px] font-bold text-slate-400 uppercase mr-1">Symmetry</span>
+          {[DrawSymmetry.NONE, DrawSymmetry.EVEN, DrawSymmetry.ODD].map(s => (
+            <button
+              key={s}
+              onClick={() => changeSymmetry(s)}
+              className={`px-2 py-0.5 text-[10px] font-bold uppercase rounded ${constraints.symmetry === s ? 'bg-violet-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {DRAW_SYMMETRY_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DrawCanvas;
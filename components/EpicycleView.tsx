@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Complex, FrequencyComponent } from '../types';
+import { epicycleTrace, phasorChain, sortEpicycles } from '../services/epicycles';
+import { formatFrequency } from '../services/units';
+
+interface EpicycleViewProps {
+  components: FrequencyComponent[]; // Components of the unpadded N-point transform
+  n: number;
+  twoSided: boolean;
+}
+
+const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4];
+// One period of the record takes this long at 1× speed
+const PERIOD_SECONDS = 10;
+// Evaluate the traced curve this many times per sample, capped for large N
+const TRACE_OVERSAMPLING = 4;
+const MAX_TRACE_POINTS = 4096;
+const LISTED_TERMS = 5;
+
+/**
+ * Fourier series drawn as epicycles: phasors sorted by amplitude and chained
+ * tip to tail. The plane is turned so the real axis points up, which lets the
+ * tip's height be traced against time on the right as the output waveform.
+ */
+const EpicycleView: React.FC<EpicycleViewProps> = ({ components, n, twoSided }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const timeRef = useRef(0); // Position in the period, in samples
+  const [size, setSize] = useState({ width: 0, height: 0, dpr: 1 });
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [maxTerms, setMaxTerms] = useState(16);
+
+  const ranked = useMemo(() => sortEpicycles(components), [components]);
+  const termCount = Math.min(maxTerms, ranked.length);
+  const terms = useMemo(() => ranked.slice(0, termCount), [ranked, termCount]);
+
+  const tracePoints = Math.min(MAX_TRACE_POINTS, Math.max(1, n * TRACE_OVERSAMPLING));
+  const trace = useMemo(() => epicycleTrace(terms, n, tracePoints), [terms, n, tracePoints]);
+  // All terms together rebuild the signal: drawn faintly as the target
+  const target = useMemo(() => epicycleTrace(ranked, n, tracePoints), [ranked, n, tracePoints]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const measure = () => setSize({ width: canvas.clientWidth, height: canvas.clientHeight, dpr: window.devicePixelRatio || 1 });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+    const pixelWidth = Math.round(size.width * size.dpr);
+    const pixelHeight = Math.round(size.height * size.dpr);
+    if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+      canvas.width = pixelWidth;
+      canvas.height = pixelHeight;
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(size.dpr, 0, 0, size.dpr, 0, 0);
+    const { width, height } = size;
+    ctx.clearRect(0, 0, width, height);
+
+    const plane = Math.min(height, width * 0.45);
+    const cx = plane / 2;
+    const cy = height / 2;
+    // Fit the traced paths; the outer circles of a partial chain may spill over
+    const reach = Math.max(1e-12, ...target.map(c => Math.hypot(c.re, c.im)), ...trace.map(c => Math.hypot(c.re, c.im)));
+    const scale = (plane / 2 - 12) / reach;
+    // Real axis up, imaginary axis to the left: a 90° turn of the usual plane
+    const toX = (c: Complex) => cx - c.im * scale;
+    const toY = (c: Complex) => cy - c.re * scale;
+
+    const traceLeft = plane + 24;
+    const traceWidth = Math.max(1, width - traceLeft - 12);
+    const timeX = (i: number) => traceLeft + (i / tracePoints) * traceWidth;
+
+    // Axes
+    ctx.strokeStyle = '#1e293b';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, cy);
+    ctx.lineTo(width, cy);
+    ctx.moveTo(cx, 0);
+    ctx.lineTo(cx, height);
+    ctx.moveTo(traceLeft, 0);
+    ctx.lineTo(traceLeft, height);
+    ctx.stroke();
+    ctx.fillStyle = '#64748b';
+    ctx.font = '10px sans-serif';
+    ctx.fillText('Re', cx + 4, 12);
+    ctx.fillText('Im', 4, cy - 4);
+    ctx.fillText(twoSided ? 'Re{x(t)}' : 'x(t)', traceLeft + 4, 12);
+
+    // Target signal
+    ctx.strokeStyle = 'rgba(59, 130, 246, 0.3)';
+    ctx.beginPath();
+    target.forEach((c, i) => (i === 0 ? ctx.moveTo(timeX(i), toY(c)) : ctx.lineTo(timeX(i), toY(c))));
+    ctx.stroke();
+
+    const t = timeRef.current % n;
+    const upTo = Math.min(trace.length - 1, Math.floor((t / n) * tracePoints));
+
+    // Growing output, in the plane and against time
+    ctx.strokeStyle = '#a3e635';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let i = 0; i <= upTo; i++) (i === 0 ? ctx.moveTo(toX(trace[i]), toY(trace[i])) : ctx.lineTo(toX(trace[i]), toY(trace[i])));
+    ctx.stroke();
+    ctx.strokeStyle = '#f59e0b';
+    ctx.beginPath();
+    for (let i = 0; i <= upTo; i++) (i === 0 ? ctx.moveTo(timeX(i), toY(trace[i])) : ctx.lineTo(timeX(i), toY(trace[i])));
+    ctx.stroke();
+
+    // Circles and phasors
+    const joints = phasorChain(terms, t, n);
+    ctx.lineWidth = 1;
+    terms.forEach((term, i) => {
+      const radius = term.amplitude * scale;
+      if (radius < 0.5) return;
+      ctx.strokeStyle = 'rgba(148, 163, 184, 0.25)';
+      ctx.beginPath();
+      ctx.arc(toX(joints[i]), toY(joints[i]), radius, 0, 2 * Math.PI);
+      ctx.stroke();
+      ctx.strokeStyle = '#60a5fa';
+      ctx.beginPath();
+      ctx.moveTo(toX(joints[i]), toY(joints[i]));
+      ctx.lineTo(toX(joints[i + 1]), toY(joints[i + 1]));
+      ctx.stroke();
+    });
+
+    // Tip, projected onto the time trace
+    const tip = joints[joints.length - 1];
+    const traceX = traceLeft + (t / n) * traceWidth;
+    ctx.strokeStyle = 'rgba(245, 158, 11, 0.5)';
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(toX(tip), toY(tip));
+    ctx.lineTo(traceX, toY(tip));
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#f59e0b';
+    ctx.beginPath();
+    ctx.arc(toX(tip), toY(tip), 3, 0, 2 * Math.PI);
+    ctx.arc(traceX, toY(tip), 3, 0, 2 * Math.PI);
+    ctx.fill();
+  }, [size, terms, trace, target, n, tracePoints, twoSided]);
+
+  useEffect(() => {
+    draw();
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      timeRef.current = (timeRef.current + ((now - last) / 1000) * (speed * n) / PERIOD_SECONDS) % n;
+      last = now;
+      draw();
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [draw, playing, speed, n]);
+
+  return (
+    <div className="w-full h-full flex flex-col bg-slate-950">
+      <div className="flex-1 min-h-[280px] relative">
+        <canvas ref={canvasRef} className="w-full h-full block" />
+        <div className="absolute top-4 right-4 bg-slate-900/95 backdrop-blur-md p-4 rounded-xl border border-slate-700/50 text-[10px] text-slate-300 shadow-2xl pointer-events-none space-y-1">
+          <p className="font-bold text-blue-400 uppercase tracking-wider text-xs border-b border-slate-800 pb-2 mb-2">Epicycles</p>
+          <p className="text-slate-500">{termCount} of {ranked.length} phasors, largest first</p>
+          {terms.slice(0, LISTED_TERMS).map(term => (
+            <p key={term.bin} className="font-mono">
+              <span className="text-slate-400">k={term.bin}</span> {formatFrequency(term.frequency)} · {term.amplitude.toFixed(3)}
+            </p>
+          ))}
+        </div>
+      </div>
+
+      <div className="shrink-0 border-t border-slate-800 p-6 flex flex-wrap items-center gap-4">
+        <div className="flex space-x-1">
+          <button
+            onClick={() => setPlaying(!playing)}
+            className="px-4 py-1.5 text-[10px] font-black uppercase rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-all"
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <button
+            onClick={() => {
+              timeRef.current = 0;
+              draw();
+            }}
+            className="px-3 py-1.5 text-[10px] font-bold uppercase rounded border border-slate-800 text-slate-400 hover:text-slate-200"
+          >
+            Restart
+          </button>
+        </div>
+
+        <div className="flex bg-slate-900 p-1 rounded-lg">
+          {SPEED_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={`px-3 py-1 rounded-md text-[10px] font-black transition-all ${speed === option ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {option}×
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-[240px] space-y-1">
+          <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+            <span>Terms</span>
+            <span className="font-mono text-lime-400">{termCount} / {ranked.length}</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={Math.max(1, ranked.length)}
+            value={Math.max(1, termCount)}
+            onChange={(e) => setMaxTerms(Number(e.target.value))}
+            className="w-full accent-lime-500"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EpicycleView;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { downloadWav } from '../services/wav';
+import { downloadBlob } from '../services/download';
+import { SignalExport, SpectrumExport, signalToCsv, signalToJson, spectrumToCsv, spectrumToJson } from '../services/dataExport';
+import { SceneHandle } from '../services/sceneExport';
+
+interface ExportMenuProps {
+  signal: SignalExport;
+  spectrum: SpectrumExport;
+  reconstruction: number[] | null;
+  scene: SceneHandle | null; // Only available while the 3D view is shown
+}
+
+const PNG_SCALES = [1, 2, 4];
+
+const buttonClass = 'py-2 text-[10px] font-black uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all disabled:opacity-40';
+
+const downloadText = (text: string, type: string, fileName: string) => downloadBlob(new Blob([text], { type }), fileName);
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ signal, spectrum, reconstruction, scene }) => {
+  const [pngScale, setPngScale] = useState(2);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSceneExport = async (run: (handle: SceneHandle) => Promise<Blob>, fileName: string) => {
+    if (!scene) return;
+    setBusy(true);
+    setError(null);
+    try {
+      downloadBlob(await run(scene), fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const hasSpectrum = spectrum.components.length > 0;
+
+  return (
+    <div className="bg-slate-950/50 rounded-2xl p-4 border border-slate-800 space-y-3">
+      <div className="space-y-1">
+        <span className="text-[10px] font-bold text-slate-500 uppercase">Spectrum</span>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => downloadText(spectrumToCsv(spectrum), 'text/csv', 'spectrum.csv')} disabled={!hasSpectrum} className={buttonClass}>CSV</button>
+          <button onClick={() => downloadText(spectrumToJson(spectrum), 'application/json', 'spectrum.json')} disabled={!hasSpectrum} className={buttonClass}>JSON</button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-[10px] font-bold text-slate-500 uppercase">Time signal</span>
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={() => downloadText(signalToCsv(signal), 'text/csv', 'signal.csv')} disabled={signal.signal.length === 0} className={buttonClass}>CSV</button>
+          <button onClick={() => downloadText(signalToJson(signal), 'application/json', 'signal.json')} disabled={signal.signal.length === 0} className={buttonClass}>JSON</button>
+          <button onClick={() => downloadWav(signal.signal, signal.sampleRate, 'signal.wav')} disabled={signal.signal.length === 0} className={buttonClass}>WAV</button>
+        </div>
+        <button
+          onClick={() => reconstruction && downloadWav(reconstruction, signal.sampleRate, 'reconstruction.wav')}
+          disabled={!reconstruction}
+          className={`${buttonClass} w-full`}
+        >
+          Reconstruction WAV
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-bold text-slate-500 uppercase">3D view</span>
+          <select
+            value={pngScale}
+            onChange={(e) => setPngScale(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-[10px] font-mono text-slate-300"
+          >
+            {PNG_SCALES.map(scale => <option key={scale} value={scale}>{scale}× resolution</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => runSceneExport(handle => handle.capturePng(pngScale), 'fft-explorer.png')}
+            disabled={!scene || busy}
+            className={buttonClass}
+          >
+            PNG
+          </button>
+          <button
+            onClick={() => runSceneExport(handle => handle.exportGlb(), 'fft-explorer.glb')}
+            disabled={!scene || busy}
+            className={buttonClass}
+          >
+            glTF (.glb)
+          </button>
+        </div>
+        {!scene && <p className="text-[10px] text-slate-500 italic">Switch to the 3D tab to export the scene</p>}
+        {error && <p className="text-[10px] font-bold text-rose-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ExportMenu;
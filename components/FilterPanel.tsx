@@ -0,0 +1,222 @@
+import React, { useMemo, useRef } from 'react';
+import { FilterMethod, FilterSettings, FilterType, WindowType } from '../types';
+import { FILTER_METHOD_LABELS, FILTER_TYPE_LABELS, idealGain, filterResponse } from '../services/filter';
+import { WINDOW_LABELS } from '../services/window';
+import { formatFrequency } from '../services/units';
+import { downloadWav } from '../services/wav';
+
+interface FilterPanelProps {
+  settings: FilterSettings;
+  onSettingsChange: (settings: FilterSettings) => void;
+  sampleRate: number;
+  signal: number[];
+  filteredSignal: number[] | null; // Null while the filter is off
+  taps: number[] | null; // Designed FIR taps, when filtering with an FIR
+}
+
+const PLOT_WIDTH = 300;
+const PLOT_HEIGHT = 80;
+const RESPONSE_POINTS = 200;
+// Headroom above unity so FIR overshoot stays visible
+const RESPONSE_MAX = 1.25;
+
+const toPolyline = (values: number[], scale: number) => {
+  if (values.length < 2) return '';
+  return values
+    .map((v, i) => {
+      const x = (i / (values.length - 1)) * PLOT_WIDTH;
+      const y = PLOT_HEIGHT / 2 - (v / scale) * (PLOT_HEIGHT / 2 - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+};
+
+const responsePolyline = (gains: number[]) =>
+  gains
+    .map((g, i) => {
+      const x = (i / (gains.length - 1)) * PLOT_WIDTH;
+      const y = PLOT_HEIGHT - (Math.min(g, RESPONSE_MAX) / RESPONSE_MAX) * (PLOT_HEIGHT - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+const signalPower = (values: number[]) => values.reduce((sum, v) => sum + v * v, 0) / Math.max(1, values.length);
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ settings, onSettingsChange, sampleRate, signal, filteredSignal, taps }) => {
+  const curveRef = useRef<SVGSVGElement>(null);
+  const editing = useRef(false);
+  const nyquist = sampleRate / 2;
+  const isBand = settings.type === FilterType.BAND_PASS || settings.type === FilterType.NOTCH;
+  const hasCutoff = settings.type !== FilterType.OFF && settings.type !== FilterType.CUSTOM;
+
+  const fractions = useMemo(() => Array.from({ length: RESPONSE_POINTS }, (_, i) => i / (RESPONSE_POINTS - 1)), []);
+  const ideal = useMemo(() => fractions.map(f => idealGain(settings, f)), [fractions, settings]);
+  const actual = useMemo(() => filterResponse(settings, fractions, taps), [fractions, settings, taps]);
+
+  const scale = useMemo(() => {
+    const peak = [...signal, ...(filteredSignal ?? [])].reduce((m, v) => Math.max(m, Math.abs(v)), 0);
+    return peak > 0 ? peak : 1;
+  }, [signal, filteredSignal]);
+
+  const powerRatioDb = useMemo(() => {
+    if (!filteredSignal) return null;
+    const input = signalPower(signal);
+    return input > 0 ? 10 * Math.log10(Math.max(signalPower(filteredSignal), 1e-30) / input) : null;
+  }, [signal, filteredSignal]);
+
+  const update = (patch: Partial<FilterSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  // Drag across the curve to set the custom gains
+  const editCurve = (e: React.PointerEvent<SVGSVGElement>) => {
+    const svg = curveRef.current;
+    if (!svg || !editing.current) return;
+    const rect = svg.getBoundingClientRect();
+    const gains = settings.customGains;
+    const index = Math.round(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * (gains.length - 1));
+    const gain = Math.min(1, Math.max(0, 1 - (e.clientY - rect.top) / rect.height)) * RESPONSE_MAX;
+    update({ customGains: gains.map((g, i) => (i === index ? Math.min(1, gain) : g)) });
+  };
+
+  const optionClass = (selected: boolean) => `py-1.5 text-[10px] font-black uppercase rounded-lg border transition-all ${selected ? 'bg-lime-600 border-lime-400 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600'}`;
+
+  return (
+    <div className="bg-slate-950/50 rounded-2xl p-4 border border-slate-800 space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {Object.values(FilterType).map(type => (
+          <button key={type} onClick={() => update({ type })} className={optionClass(settings.type === type)}>
+            {FILTER_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {settings.type !== FilterType.OFF && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {Object.values(FilterMethod).map(method => (
+              <button key={method} onClick={() => update({ method })} className={optionClass(settings.method === method)}>
+                {FILTER_METHOD_LABELS[method]}
+              </button>
+            ))}
+          </div>
+
+          {hasCutoff && (
+            <div className="space-y-2">
+              <div className="space-y-1">
+                <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+                  <span>{isBand ? 'Low edge' : 'Cutoff'}</span>
+                  <span className="font-mono text-lime-400">{formatFrequency(settings.cutoff * nyquist)}</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.005}
+                  value={settings.cutoff}
+                  onChange={(e) => update({ cutoff: Number(e.target.value) })}
+                  className="w-full accent-lime-500"
+                />
+              </div>
+              {isBand && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+                    <span>High edge</span>
+                    <span className="font-mono text-lime-400">{formatFrequency(settings.cutoffHigh * nyquist)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.005}
+                    value={settings.cutoffHigh}
+                    onChange={(e) => update({ cutoffHigh: Number(e.target.value) })}
+                    className="w-full accent-lime-500"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {settings.method === FilterMethod.FIR && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+                  <span>Taps</span>
+                  <span className="font-mono text-lime-400">{settings.taps}</span>
+                </div>
+                <input
+                  type="range"
+                  min={3}
+                  max={255}
+                  step={2}
+                  value={settings.taps}
+                  onChange={(e) => update({ taps: Number(e.target.value) })}
+                  className="w-full accent-lime-500"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-slate-400 uppercase">Design window</span>
+                <select
+                  value={settings.window.type}
+                  onChange={(e) => update({ window: { ...settings.window, type: e.target.value as WindowType } })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs font-bold text-slate-200 focus:outline-none focus:ring-2 focus:ring-lime-500"
+                >
+                  {Object.values(WindowType).map(type => (
+                    <option key={type} value={type}>{WINDOW_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase">
+              <span>Response 0..{formatFrequency(nyquist)}</span>
+              {settings.type === FilterType.CUSTOM && <span className="normal-case font-medium italic">Drag to draw the gain</span>}
+            </div>
+            <svg
+              ref={curveRef}
+              viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+              preserveAspectRatio="none"
+              className={`w-full h-20 bg-slate-900 rounded-lg border border-slate-800 ${settings.type === FilterType.CUSTOM ? 'cursor-crosshair touch-none' : ''}`}
+              onPointerDown={(e) => {
+                if (settings.type !== FilterType.CUSTOM) return;
+                editing.current = true;
+                e.currentTarget.setPointerCapture(e.pointerId);
+                editCurve(e);
+              }}
+              onPointerMove={editCurve}
+              onPointerUp={() => { editing.current = false; }}
+              onPointerCancel={() => { editing.current = false; }}
+            >
+              <line x1={0} y1={PLOT_HEIGHT - (PLOT_HEIGHT - 2) / RESPONSE_MAX} x2={PLOT_WIDTH} y2={PLOT_HEIGHT - (PLOT_HEIGHT - 2) / RESPONSE_MAX} stroke="#334155" strokeDasharray="4 4" />
+              <polyline points={responsePolyline(ideal)} fill="none" stroke="#a3e635" strokeOpacity={0.4} strokeDasharray="3 3" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+              <polyline points={responsePolyline(actual)} fill="none" stroke="#a3e635" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            </svg>
+          </div>
+
+          {filteredSignal && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase">
+                <span>Before / after</span>
+                {powerRatioDb !== null && <span className="font-mono text-lime-400">{powerRatioDb.toFixed(1)} dB power</span>}
+              </div>
+              <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-20 bg-slate-900 rounded-lg border border-slate-800">
+                <line x1={0} y1={PLOT_HEIGHT / 2} x2={PLOT_WIDTH} y2={PLOT_HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" />
+                <polyline points={toPolyline(signal, scale)} fill="none" stroke="#3b82f6" strokeOpacity={0.4} strokeWidth={1} />
+                <polyline points={toPolyline(filteredSignal, scale)} fill="none" stroke="#a3e635" strokeWidth={1.5} />
+              </svg>
+              <button
+                onClick={() => downloadWav(filteredSignal, sampleRate, 'filtered.wav')}
+                className="w-full py-2 text-[10px] font-black uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all"
+              >
+                Filtered WAV
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FilterPanel;
@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { SignalSnapshot } from '../types';
+import { rmsDifference } from '../services/signalState';
+
+interface HistoryPanelProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  signal: number[];
+  snapshots: SignalSnapshot[];
+  onSnapshot: (name: string) => void;
+  onRestore: (snapshot: SignalSnapshot) => void;
+  onDelete: (id: number) => void;
+  compareId: number | null; // Snapshot overlaid on the current signal
+  onCompare: (id: number | null) => void;
+}
+
+const PREVIEW_WIDTH = 300;
+const PREVIEW_HEIGHT = 60;
+
+const previewPath = (values: number[], peak: number) =>
+  values
+    .map((v, i) => {
+      const x = values.length > 1 ? (i / (values.length - 1)) * PREVIEW_WIDTH : 0;
+      const y = PREVIEW_HEIGHT / 2 - (v / peak) * (PREVIEW_HEIGHT / 2 - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  signal,
+  snapshots,
+  onSnapshot,
+  onRestore,
+  onDelete,
+  compareId,
+  onCompare,
+}) => {
+  const [name, setName] = useState('');
+  const compared = snapshots.find(s => s.id === compareId) ?? null;
+
+  const preview = useMemo(() => {
+    if (!compared) return null;
+    const other = compared.state.signal;
+    const peak = Math.max(1e-9, ...signal.map(Math.abs), ...other.map(Math.abs));
+    return {
+      current: previewPath(signal, peak),
+      snapshot: previewPath(other, peak),
+      rms: rmsDifference(signal, other),
+    };
+  }, [compared, signal]);
+
+  const handleSnapshot = () => {
+    onSnapshot(name.trim() || `Snapshot ${snapshots.length + 1}`);
+    setName('');
+  };
+
+  return (
+    <div className="bg-slate-950/50 rounded-2xl p-4 border border-slate-800 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          title="Ctrl+Z"
+          className="py-2 text-[10px] font-black uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all disabled:opacity-40"
+        >
+          Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          title="Ctrl+Shift+Z"
+          className="py-2 text-[10px] font-black uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all disabled:opacity-40"
+        >
+          Redo
+        </button>
+      </div>
+
+      <div className="flex space-x-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSnapshot()}
+          placeholder="Snapshot name"
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleSnapshot}
+          className="px-3 text-[10px] font-black uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all"
+        >
+          Snapshot
+        </button>
+      </div>
+
+      {snapshots.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className={`flex items-center justify-between rounded-lg px-2 py-1.5 text-xs ${snapshot.id === compareId ? 'bg-slate-800' : 'bg-slate-900'}`}>
+              <span className="flex-1 min-w-0 truncate text-slate-300" title={`${snapshot.state.inputMode.toLowerCase()} · N = ${snapshot.state.numPoints}`}>
+                {snapshot.name}
+              </span>
+              <span className="flex items-center space-x-2 text-[10px] font-bold uppercase">
+                <button onClick={() => onRestore(snapshot)} className="text-slate-500 hover:text-blue-300">Restore</button>
+                <button
+                  onClick={() => onCompare(snapshot.id === compareId ? null : snapshot.id)}
+                  className={snapshot.id === compareId ? 'text-amber-400' : 'text-slate-500 hover:text-amber-300'}
+                >
+                  Compare
+                </button>
+                <button onClick={() => onDelete(snapshot.id)} className="text-slate-500 hover:text-rose-400">Delete</button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {compared && preview && (
+        <div className="space-y-1">
+          <svg viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`} className="w-full h-14 bg-slate-900 rounded-lg border border-slate-800">
+            <polyline points={preview.snapshot} fill="none" stroke="#94a3b8" strokeWidth={1.5} strokeDasharray="4 3" />
+            <polyline points={preview.current} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+          </svg>
+          <p className="text-[10px] font-mono text-slate-500">
+            Current vs "{compared.name}": {preview.rms === null ? 'different lengths' : `RMS difference ${preview.rms.toFixed(4)}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { GrayImage, MaskBrush } from '../types';
+import { fft2d } from '../services/fft';
+import {
+  IMAGE_SIZES,
+  MASK_BRUSH_LABELS,
+  createMask,
+  decodeImage,
+  logMagnitude,
+  maskedReconstruction,
+  paintMask,
+  passedEnergy,
+  radialMask,
+  testPattern,
+  toGrayImage,
+} from '../services/image';
+import { viridis } from '../services/colormap';
+import { SafeLine, Label } from './SceneHelpers';
+
+const surfaceSize = 12;
+const heightScale = 4;
+// Blocked bins keep their height but turn grey, so the mask reads on the surface
+const BLOCKED_COLOR: [number, number, number] = [0.2, 0.23, 0.28];
+
+const MagnitudeSurface = ({ values, mask, size }: { values: Float64Array; mask: Float64Array; size: number }) => {
+  const geometry = useMemo(() => {
+    const positions = new Float32Array(size * size * 3);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const idx = (y * size + x) * 3;
+        positions[idx] = (x / (size - 1) - 0.5) * surfaceSize;
+        positions[idx + 1] = values[y * size + x] * heightScale;
+        positions[idx + 2] = (y / (size - 1) - 0.5) * surfaceSize;
+      }
+    }
+
+    const indices: number[] = [];
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const a = y * size + x;
+        const b = a + size;
+        indices.push(a, b, a + 1, b, b + 1, a + 1);
+      }
+    }
+
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geo.setAttribute('color', new THREE.BufferAttribute(new Float32Array(size * size * 3), 3));
+    geo.setIndex(indices);
+    geo.computeVertexNormals();
+    return geo;
+  }, [values, size]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Painting only recolors vertices, so the geometry isn't rebuilt on every stroke
+  useEffect(() => {
+    const colors = geometry.getAttribute('color') as THREE.BufferAttribute;
+    for (let i = 0; i < size * size; i++) {
+      const [r, g, b] = mask[i] > 0 ? viridis(values[i]) : BLOCKED_COLOR;
+      colors.setXYZ(i, r, g, b);
+    }
+    colors.needsUpdate = true;
+  }, [geometry, values, mask, size]);
+
+  return (
+    <mesh geometry={geometry}>
+      <meshStandardMaterial vertexColors side={THREE.DoubleSide} metalness={0.1} roughness={0.7} />
+    </mesh>
+  );
+};
+
+/**
+ * Pixel-exact canvas for a size × size RGBA buffer, scaled up without smoothing.
+ */
+const PixelCanvas = ({ rgba, size, ...handlers }: { rgba: Uint8ClampedArray; size: number } & React.DOMAttributes<HTMLCanvasElement>) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.putImageData(new ImageData(rgba, size, size), 0, 0);
+  }, [rgba, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size}
+      height={size}
+      style={{ imageRendering: 'pixelated' }}
+      className="w-full aspect-square rounded-lg border border-slate-800 bg-slate-950 touch-none"
+      {...handlers}
+    />
+  );
+};
+
+const grayRgba = (image: GrayImage) => {
+  const rgba = new Uint8ClampedArray(image.pixels.length * 4);
+  image.pixels.forEach((v, i) => {
+    const level = Math.round(Math.min(1, Math.max(0, v)) * 255);
+    rgba.set([level, level, level, 255], i * 4);
+  });
+  return rgba;
+};
+
+const ImageFftView: React.FC = () => {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [size, setSize] = useState(128);
+  const [mask, setMask] = useState(() => createMask(128, 128));
+  const [brush, setBrush] = useState(MaskBrush.BLOCK);
+  const [brushRadius, setBrushRadius] = useState(3);
+  const [cutoff, setCutoff] = useState(0.25);
+  const painting = useRef(false);
+
+  const image = useMemo(() => (bitmap ? toGrayImage(bitmap, size) : testPattern(size)), [bitmap, size]);
+  const spectrum = useMemo(() => fft2d(image), [image]);
+  const magnitude = useMemo(() => logMagnitude(spectrum), [spectrum]);
+  const reconstruction = useMemo(() => maskedReconstruction(spectrum, mask), [spectrum, mask]);
+  const energy = useMemo(() => passedEnergy(spectrum, mask), [spectrum, mask]);
+
+  const imageRgba = useMemo(() => grayRgba(image), [image]);
+  const reconstructionRgba = useMemo(() => grayRgba(reconstruction), [reconstruction]);
+  const spectrumRgba = useMemo(() => {
+    const rgba = new Uint8ClampedArray(magnitude.length * 4);
+    magnitude.forEach((v, i) => {
+      // Blocked bins are drawn in dark red
+      const [r, g, b] = mask[i] > 0 ? viridis(v) : [0.25 + 0.35 * v, 0.05, 0.1];
+      rgba.set([Math.round(r * 255), Math.round(g * 255), Math.round(b * 255), 255], i * 4);
+    });
+    return rgba;
+  }, [magnitude, mask]);
+
+  useEffect(() => () => bitmap?.close(), [bitmap]);
+
+  const changeSize = (next: number) => {
+    setSize(next);
+    setMask(createMask(next, next));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setBitmap(await decodeImage(file));
+      setFileName(file.name);
+      setFileError(null);
+      setMask(createMask(size, size));
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const paintAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * size);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * size);
+    if (x < 0 || y < 0 || x >= size || y >= size) return;
+    setMask(prev => paintMask(prev, size, size, x, y, brushRadius, brush));
+  };
+
+  const mse = useMemo(() => {
+    let sum = 0;
+    for (let i = 0; i < image.pixels.length; i++) sum += (image.pixels[i] - reconstruction.pixels[i]) ** 2;
+    return sum / image.pixels.length;
+  }, [image, reconstruction]);
+
+  return (
+    <div className="w-full h-full min-h-[400px] flex bg-slate-950">
+      <div className="flex-1 relative cursor-move">
+        <Canvas camera={{ position: [12, 12, 14], fov: 40 }} gl={{ antialias: true }}>
+          <ambientLight intensity={1.2} />
+          <pointLight position={[10, 15, 10]} intensity={2} />
+
+          <MagnitudeSurface values={magnitude} mask={mask} size={size} />
+
+          {/* Frequency axes along two edges of the surface */}
+          <SafeLine points={[new THREE.Vector3(-surfaceSize / 2, 0, surfaceSize / 2 + 0.3), new THREE.Vector3(surfaceSize / 2, 0, surfaceSize / 2 + 0.3)]} color="#3b82f6" lineWidth={1.5} />
+          <SafeLine points={[new THREE.Vector3(-surfaceSize / 2 - 0.3, 0, -surfaceSize / 2), new THREE.Vector3(-surfaceSize / 2 - 0.3, 0, surfaceSize / 2)]} color="#f43f5e" lineWidth={1.5} />
+          <Label position={[0, -0.8, surfaceSize / 2 + 1.2]} text="u (CYCLES / PIXEL)" color="#3b82f6" bold />
+          <Label position={[-surfaceSize / 2 - 2.2, -0.8, 0]} text="v (CYCLES / PIXEL)" color="#f43f5e" bold />
+          {[-0.5, 0, 0.5].map(f => (
+            <React.Fragment key={f}>
+              <Label position={[f * surfaceSize, -0.4, surfaceSize / 2 + 0.8]} text={f === 0 ? 'DC' : `${f > 0 ? '+' : '−'}½`} color="#94a3b8" />
+              <Label position={[-surfaceSize / 2 - 1, -0.4, f * surfaceSize]} text={f === 0 ? 'DC' : `${f > 0 ? '+' : '−'}½`} color="#94a3b8" />
+            </React.Fragment>
+          ))}
+
+          <gridHelper args={[20, 20, 0x334155, 0x1e293b]} position={[0, -0.01, 0]} />
+          <OrbitControls makeDefault minDistance={5} maxDistance={40} target={[0, 1, 0]} />
+        </Canvas>
+
+        <div className="absolute top-4 left-4 bg-slate-900/95 backdrop-blur-md p-4 rounded-xl border border-slate-700/50 text-[10px] text-slate-300 shadow-2xl w-64 space-y-1">
+          <p className="font-bold text-blue-400 uppercase tracking-wider text-xs border-b border-slate-800 pb-2">2D FFT · LOG MAGNITUDE</p>
+          <p className="text-slate-400 leading-relaxed">
+            Height is log(1 + |X(u, v)|), shifted so DC sits in the centre. Grey regions are blocked by the mask.
+          </p>
+        </div>
+      </div>
+
+      <aside className="w-80 shrink-0 border-l border-slate-800 bg-slate-900 overflow-y-auto custom-scrollbar p-4 space-y-4 text-[10px]">
+        <div className="space-y-1">
+          <label className="font-bold text-slate-400 uppercase tracking-wider">Image (PNG / JPEG)</label>
+          <input
+            type="file"
+            accept="image/png,image/jpeg"
+            onChange={handleFileChange}
+            className="w-full text-xs text-slate-400 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:bg-blue-600 file:text-white file:font-semibold hover:file:bg-blue-500"
+          />
+          {fileError && <p className="text-rose-400 font-bold">{fileError}</p>}
+          <div className="flex items-center justify-between font-mono text-slate-500">
+            <span>{fileName ?? 'Test pattern'} · grayscale, centre crop</span>
+            {bitmap && (
+              <button
+                onClick={() => {
+                  setBitmap(null);
+                  setFileName(null);
+                  setMask(createMask(size, size));
+                }}
+                className="text-slate-400 hover:text-slate-200 uppercase font-bold"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="font-bold text-slate-400 uppercase">Size</span>
+          <select
+            value={size}
+            onChange={(e) => changeSize(Number(e.target.value))}
+            className="bg-slate-950 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+          >
+            {IMAGE_SIZES.map(s => <option key={s} value={s}>{s} × {s}</option>)}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <p className="font-bold text-slate-400 uppercase">Input</p>
+          <PixelCanvas rgba={imageRgba} size={size} />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="font-bold text-slate-400 uppercase">Mask · drag to paint</p>
+            <div className="flex bg-slate-950 p-0.5 rounded-md">
+              {Object.values(MaskBrush).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setBrush(value)}
+                  className={`px-2 py-0.5 rounded font-bold uppercase transition-all ${brush === value ? (value === MaskBrush.BLOCK ? 'bg-rose-600 text-white' : 'bg-emerald-600 text-white') : 'text-slate-400 hover:text-slate-200'}`}
+                >
+                  {MASK_BRUSH_LABELS[value]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <PixelCanvas
+            rgba={spectrumRgba}
+            size={size}
+            onPointerDown={(e) => {
+              painting.current = true;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              paintAt(e);
+            }}
+            onPointerMove={(e) => painting.current && paintAt(e)}
+            onPointerUp={() => {
+              painting.current = false;
+            }}
+          />
+          <label className="flex items-center justify-between space-x-2 font-bold uppercase text-slate-400">
+            <span>Brush</span>
+            <input type="range" min={0} max={16} value={brushRadius} onChange={(e) => setBrushRadius(Number(e.target.value))} className="flex-1 accent-blue-500" />
+            <span className="font-mono text-blue-400 w-10 text-right">{brushRadius} px</span>
+          </label>
+          <label className="flex items-center justify-between space-x-2 font-bold uppercase text-slate-400">
+            <span>Cutoff</span>
+            <input type="range" min={0.02} max={1} step={0.01} value={cutoff} onChange={(e) => setCutoff(Number(e.target.value))} className="flex-1 accent-blue-500" />
+            <span className="font-mono text-blue-400 w-10 text-right">{Math.round(cutoff * 100)}%</span>
+          </label>
+          <div className="grid grid-cols-3 gap-1">
+            <button onClick={() => setMask(radialMask(size, size, cutoff, true))} className="py-1 rounded-md border border-slate-700 bg-slate-950 font-bold uppercase text-slate-300 hover:border-slate-500">Low-pass</button>
+            <button onClick={() => setMask(radialMask(size, size, cutoff, false))} className="py-1 rounded-md border border-slate-700 bg-slate-950 font-bold uppercase text-slate-300 hover:border-slate-500">High-pass</button>
+            <button onClick={() => setMask(createMask(size, size))} className="py-1 rounded-md border border-slate-700 bg-slate-950 font-bold uppercase text-slate-300 hover:border-slate-500">Clear</button>
+          </div>
+          <p className="text-slate-500 leading-relaxed">
+            Painting also marks the mirrored point through DC, keeping the spectrum conjugate-symmetric so the reconstruction stays a real image.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <p className="font-bold text-slate-400 uppercase">Inverse 2D FFT</p>
+            <span className="font-mono text-slate-500">{(energy * 100).toFixed(1)}% energy · MSE {mse.toExponential(2)}</span>
+          </div>
+          <PixelCanvas rgba={reconstructionRgba} size={size} />
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default ImageFftView;
@@ -0,0 +1,149 @@
+import React, { useMemo } from 'react';
+import { PhasePoint, PhaseSettings } from '../types';
+import { formatFrequency, formatTime } from '../services/units';
+
+interface PhasePanelProps {
+  settings: PhaseSettings;
+  onSettingsChange: (settings: PhaseSettings) => void;
+  points: PhasePoint[];
+  minFrequency: number;
+  maxFrequency: number;
+}
+
+const PLOT_WIDTH = 300;
+const PLOT_HEIGHT = 100;
+const PAD = 4;
+
+/**
+ * Maps values to SVG coordinates for a plot spanning minX..maxX and minY..maxY.
+ */
+const makeScale = (minX: number, maxX: number, minY: number, maxY: number) => ({
+  x: (v: number) => PAD + ((v - minX) / (maxX - minX || 1)) * (PLOT_WIDTH - 2 * PAD),
+  y: (v: number) => PLOT_HEIGHT - PAD - ((v - minY) / (maxY - minY || 1)) * (PLOT_HEIGHT - 2 * PAD),
+});
+
+const PhasePanel: React.FC<PhasePanelProps> = ({ settings, onSettingsChange, points, minFrequency, maxFrequency }) => {
+  const phaseKey = settings.unwrapped ? 'unwrapped' : 'wrapped';
+
+  const phaseRange = useMemo(() => {
+    if (!settings.unwrapped || points.length === 0) return { min: -Math.PI, max: Math.PI };
+    const values = points.map(p => p.unwrapped);
+    const min = Math.min(-Math.PI, ...values);
+    const max = Math.max(Math.PI, ...values);
+    return { min, max };
+  }, [points, settings.unwrapped]);
+
+  const phaseScale = makeScale(minFrequency, maxFrequency, phaseRange.min, phaseRange.max);
+
+  const delayPoints = points.filter(p => p.groupDelay !== null);
+  const delayRange = useMemo(() => {
+    if (delayPoints.length === 0) return { min: -1, max: 1 };
+    const values = delayPoints.map(p => p.groupDelay as number);
+    const min = Math.min(0, ...values);
+    const max = Math.max(0, ...values);
+    return min === max ? { min: min - 1, max: max + 1 } : { min, max };
+  }, [delayPoints]);
+  const delayScale = makeScale(minFrequency, maxFrequency, delayRange.min, delayRange.max);
+  // One line per stretch of adjacent bins, so gaps below the threshold aren't bridged
+  const delayRuns = useMemo(() => {
+    const runs: PhasePoint[][] = [];
+    delayPoints.forEach((p, i) => {
+      if (i > 0 && p.bin === delayPoints[i - 1].bin + 1) runs[runs.length - 1].push(p);
+      else runs.push([p]);
+    });
+    return runs;
+  }, [delayPoints]);
+
+  return (
+    <div className="bg-slate-950/50 rounded-2xl p-4 border border-slate-800 space-y-3">
+      <div className="grid grid-cols-2 gap-1 bg-slate-900 p-1 rounded-lg">
+        {[false, true].map(unwrapped => (
+          <button
+            key={String(unwrapped)}
+            onClick={() => onSettingsChange({ ...settings, unwrapped })}
+            className={`py-1.5 rounded-md text-[10px] font-bold transition-all ${settings.unwrapped === unwrapped
+                ? 'bg-teal-500 text-slate-950 shadow-lg shadow-teal-900/20'
+                : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+              }`}
+          >
+            {unwrapped ? 'Unwrapped' : 'Wrapped'}
+          </button>
+        ))}
+      </div>
+
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-24 bg-slate-900 rounded-lg border border-slate-800">
+        {[-Math.PI, 0, Math.PI].map(v => (
+          <line key={v} x1={0} x2={PLOT_WIDTH} y1={phaseScale.y(v)} y2={phaseScale.y(v)} stroke="#334155" strokeDasharray={v === 0 ? undefined : '4 4'} />
+        ))}
+        {points.map(p => (
+          <g key={p.bin}>
+            <line x1={phaseScale.x(p.frequency)} x2={phaseScale.x(p.frequency)} y1={phaseScale.y(0)} y2={phaseScale.y(p[phaseKey])} stroke="#2dd4bf" strokeOpacity={0.5} />
+            <circle cx={phaseScale.x(p.frequency)} cy={phaseScale.y(p[phaseKey])} r={2} fill="#2dd4bf">
+              <title>{`${formatFrequency(p.frequency)}: ${(p[phaseKey] / Math.PI).toFixed(3)}π rad`}</title>
+            </circle>
+          </g>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[9px] font-bold text-slate-600 uppercase tracking-tighter">
+        <span>{formatFrequency(minFrequency)}</span>
+        <span>{points.length} bins above threshold</span>
+        <span>{formatFrequency(maxFrequency)}</span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-400 font-medium">Magnitude threshold</span>
+          <span className="text-xs font-mono font-bold text-teal-400">{settings.thresholdDb} dB</span>
+        </div>
+        <input
+          type="range"
+          min={-120}
+          max={0}
+          step={5}
+          value={settings.thresholdDb}
+          onChange={(e) => onSettingsChange({ ...settings, thresholdDb: Number(e.target.value) })}
+          className="w-full accent-teal-500"
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] font-bold uppercase text-slate-400">
+        <label className="flex items-center space-x-2">
+          <input type="checkbox" checked={settings.showWall} onChange={(e) => onSettingsChange({ ...settings, showWall: e.target.checked })} className="accent-teal-500" />
+          <span>Phase wall in 3D</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input type="checkbox" checked={settings.showGroupDelay} onChange={(e) => onSettingsChange({ ...settings, showGroupDelay: e.target.checked })} className="accent-teal-500" />
+          <span>Group delay</span>
+        </label>
+      </div>
+
+      {settings.showGroupDelay && (
+        <>
+          <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-24 bg-slate-900 rounded-lg border border-slate-800">
+            <line x1={0} x2={PLOT_WIDTH} y1={delayScale.y(0)} y2={delayScale.y(0)} stroke="#334155" />
+            {delayRuns.map(run => (
+              <polyline
+                key={run[0].bin}
+                points={run.map(p => `${delayScale.x(p.frequency).toFixed(1)},${delayScale.y(p.groupDelay as number).toFixed(1)}`).join(' ')}
+                fill="none"
+                stroke="#fbbf24"
+                strokeWidth={1.5}
+              />
+            ))}
+            {delayPoints.map(p => (
+              <circle key={p.bin} cx={delayScale.x(p.frequency)} cy={delayScale.y(p.groupDelay as number)} r={1.8} fill="#fbbf24">
+                <title>{`${formatFrequency(p.frequency)}: ${formatTime(p.groupDelay as number, 3)}`}</title>
+              </circle>
+            ))}
+          </svg>
+          <div className="flex justify-between text-[9px] font-bold text-slate-600 uppercase tracking-tighter">
+            <span>τ = -dφ/dω</span>
+            <span>{formatTime(delayRange.min, 3)} … {formatTime(delayRange.max, 3)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhasePanel;
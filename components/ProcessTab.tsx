@@ -0,0 +1,54 @@
+import React from 'react';
+import CorrelationWalkthrough from './CorrelationWalkthrough';
+import ButterflyDiagram from './ButterflyDiagram';
+
+interface ProcessTabProps {
+  signal: number[];
+  imagSignal: number[] | null;
+  sampleRate: number;
+}
+
+const StepHeader = ({ step, title, desc }: { step: number; title: string; desc: string }) => (
+  <div className="flex items-start space-x-6">
+    <div className="w-12 h-12 rounded-2xl bg-blue-600/10 text-blue-500 flex items-center justify-center text-2xl font-black shrink-0 border border-blue-500/20">{step}</div>
+    <div className="space-y-1">
+      <h3 className="text-xl font-bold text-white">{title}</h3>
+      <p className="text-slate-400 leading-relaxed text-sm font-medium">{desc}</p>
+    </div>
+  </div>
+);
+
+/**
+ * "The Process" tab: the DFT of the current signal worked through by hand,
+ * first one bin at a time, then all bins at once with the radix-2 FFT.
+ */
+const ProcessTab: React.FC<ProcessTabProps> = ({ signal, imagSignal, sampleRate }) => (
+  <div className="w-full h-full p-8 overflow-y-auto custom-scrollbar bg-slate-950">
+    <div className="max-w-5xl mx-auto space-y-12 py-12">
+      <header className="text-center space-y-2">
+        <h2 className="text-4xl font-black text-white tracking-tight">Understanding the Math</h2>
+        <p className="text-slate-500 font-medium">The journey from Time to Frequency, on your signal</p>
+      </header>
+
+      <section className="space-y-4">
+        <StepHeader
+          step={1}
+          title="Correlation"
+          desc="Each bin X[k] multiplies the signal by a probe wave e^(−2πikn/N) and sums the products. Step through n to watch the sum grow: matching frequencies line up and walk away from the origin, others curl back and cancel."
+        />
+        <CorrelationWalkthrough signal={signal} imagSignal={imagSignal} sampleRate={sampleRate} />
+      </section>
+
+      <section className="space-y-4">
+        <StepHeader
+          step={2}
+          title="The Fast Fourier Transform"
+          desc="Doing that for every bin costs N² multiplications. The radix-2 FFT reorders the samples, then merges pairs of half-length DFTs with butterflies — N·log₂N operations for the same result."
+        />
+        <ButterflyDiagram signal={signal} imagSignal={imagSignal} />
+      </section>
+    </div>
+  </div>
+);
+
+export default ProcessTab;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ReconstructionMode, ReconstructionStats } from '../types';
+
+interface ReconstructionPanelProps {
+  mode: ReconstructionMode;
+  onModeChange: (mode: ReconstructionMode) => void;
+  count: number;
+  maxCount: number;
+  onCountChange: (count: number) => void;
+  activeCount: number;
+  totalCount: number;
+  stats: ReconstructionStats | null;
+  onEnableAll: () => void;
+  onDisableAll: () => void;
+}
+
+const MODE_LABELS: Record<ReconstructionMode, string> = {
+  [ReconstructionMode.OFF]: 'Off',
+  [ReconstructionMode.MANUAL]: 'Manual',
+  [ReconstructionMode.TOP_K]: 'Top K',
+  [ReconstructionMode.PARTIAL_SUM]: 'Partial',
+};
+
+const ReconstructionPanel: React.FC<ReconstructionPanelProps> = ({
+  mode,
+  onModeChange,
+  count,
+  maxCount,
+  onCountChange,
+  activeCount,
+  totalCount,
+  stats,
+  onEnableAll,
+  onDisableAll,
+}) => {
+  return (
+    <div className="bg-slate-950/50 rounded-2xl p-4 border border-slate-800 space-y-4">
+      <div className="grid grid-cols-4 gap-1 bg-slate-900 p-1 rounded-lg">
+        {Object.values(ReconstructionMode).map(m => (
+          <button
+            key={m}
+            onClick={() => onModeChange(m)}
+            className={`py-1.5 rounded-md text-[10px] font-bold transition-all ${mode === m
+                ? 'bg-amber-500 text-slate-950 shadow-lg shadow-amber-900/20'
+                : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+              }`}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {mode === ReconstructionMode.MANUAL && (
+        <div className="flex items-center justify-between">
+          <p className="text-[10px] text-slate-400 italic">Click spectrum bars to toggle components</p>
+          <div className="flex space-x-2">
+            <button onClick={onEnableAll} className="text-[10px] text-slate-500 hover:text-slate-300 uppercase font-bold">All</button>
+            <button onClick={onDisableAll} className="text-[10px] text-slate-500 hover:text-slate-300 uppercase font-bold">None</button>
+          </div>
+        </div>
+      )}
+
+      {(mode === ReconstructionMode.TOP_K || mode === ReconstructionMode.PARTIAL_SUM) && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400 font-medium">
+              {mode === ReconstructionMode.TOP_K ? 'Strongest components' : 'Highest harmonic'}
+            </span>
+            <span className="text-xs font-mono font-bold text-amber-400 bg-amber-400/10 px-2 py-0.5 rounded">{count}</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={Math.max(1, maxCount)}
+            value={Math.min(count, Math.max(1, maxCount))}
+            onChange={(e) => onCountChange(Number(e.target.value))}
+            className="w-full accent-amber-500"
+          />
+        </div>
+      )}
+
+      {mode !== ReconstructionMode.OFF && stats && (
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-slate-900 rounded-lg p-2 border border-slate-800">
+            <p className="text-[9px] font-bold text-slate-500 uppercase">Terms</p>
+            <p className="text-xs font-mono font-bold text-amber-400">{activeCount}/{totalCount}</p>
+          </div>
+          <div className="bg-slate-900 rounded-lg p-2 border border-slate-800">
+            <p className="text-[9px] font-bold text-slate-500 uppercase">RMS Error</p>
+            <p className="text-xs font-mono font-bold text-rose-400">{stats.rmsError.toFixed(4)}</p>
+          </div>
+          <div className="bg-slate-900 rounded-lg p-2 border border-slate-800">
+            <p className="text-[9px] font-bold text-slate-500 uppercase">Energy</p>
+            <p className="text-xs font-mono font-bold text-emerald-400">{(stats.energyCaptured * 100).toFixed(1)}%</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconstructionPanel;
@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { InputMode, SignalSource } from '../types';
+import { CompiledExpression, compileExpression, sampleExpression, sampleExpressionAt } from '../services/expression';
+import {
+  OVERSAMPLING,
+  SampledTone,
+  aliasFrequency,
+  findTones,
+  nyquistZone,
+  prefilterGain,
+  sampleWithPrefilter,
+} from '../services/sampling';
+import { componentValue, fft, getFrequencyComponents } from '../services/fft';
+import { formatFrequency } from '../services/units';
+
+interface SamplingViewProps {
+  inputMode: InputMode;
+  source: SignalSource;
+  onSourceChange: (source: SignalSource) => void;
+  numPoints: number;
+  sampleRate: number;
+}
+
+const TIME_WIDTH = 800;
+const TIME_HEIGHT = 220;
+const SPECTRUM_WIDTH = 800;
+const SPECTRUM_HEIGHT = 120;
+const MIN_SPAN = 4;
+const MAX_SPAN = 128;
+// The sweep runs from DC up through SWEEP_ZONES Nyquist zones (to 2·fs), then starts over
+const SWEEP_ZONES = 4;
+const SWEEP_SECONDS = 16;
+const SWEEP_FRAME_MS = 40;
+
+const compileOrNull = (formula: string): CompiledExpression | null => {
+  try {
+    return compileExpression(formula);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * What sampling does to a continuous signal: the formula next to its samples,
+ * the band-limited curve those samples actually describe, and where every tone
+ * of the formula folds to in the sampled spectrum.
+ */
+const SamplingView: React.FC<SamplingViewProps> = ({ inputMode, source, onSourceChange, numPoints, sampleRate }) => {
+  const [mode, setMode] = useState<'equation' | 'sweep'>('equation');
+  const [requestedSpan, setRequestedSpan] = useState(32);
+  const [sweepFrequency, setSweepFrequency] = useState(sampleRate / 8);
+  const [sweeping, setSweeping] = useState(false);
+
+  const nyquist = sampleRate / 2;
+  const sweepMax = (SWEEP_ZONES * sampleRate) / 2;
+  const span = Math.max(1, Math.min(requestedSpan, numPoints));
+  const antiAlias = source.antiAlias;
+
+  const usable = inputMode === InputMode.EQUATION && !source.complexEquation;
+  const expression = useMemo(() => (usable ? compileOrNull(source.equation) : null), [usable, source.equation]);
+  const fromEquation = mode === 'equation';
+
+  useEffect(() => {
+    if (!sweeping) return;
+    const step = (2 * sweepMax * SWEEP_FRAME_MS) / (SWEEP_SECONDS * 1000);
+    const timer = setInterval(() => setSweepFrequency(prev => (prev + step > sweepMax ? 0 : prev + step)), SWEEP_FRAME_MS);
+    return () => clearInterval(timer);
+  }, [sweeping, sweepMax]);
+
+  const tones: SampledTone[] = useMemo(() => {
+    if (!fromEquation) {
+      return [{ frequency: sweepFrequency, amplitude: 1, alias: aliasFrequency(sweepFrequency, sampleRate), zone: nyquistZone(sweepFrequency, sampleRate) }];
+    }
+    return expression ? findTones(expression, numPoints, sampleRate) : [];
+  }, [fromEquation, expression, numPoints, sampleRate, sweepFrequency]);
+
+  // Continuous curve, samples and the band-limited curve through the samples over the first `span` samples
+  const curves = useMemo(() => {
+    const positions = Array.from({ length: span * OVERSAMPLING + 1 }, (_, i) => i / OVERSAMPLING);
+    if (!fromEquation) {
+      const gain = antiAlias ? prefilterGain(sweepFrequency, sampleRate) : 1;
+      const alias = aliasFrequency(sweepFrequency, sampleRate);
+      const tone = (f: number, p: number) => Math.cos((2 * Math.PI * f * p) / sampleRate);
+      return {
+        positions,
+        continuous: positions.map(p => tone(sweepFrequency, p)),
+        samples: Array.from({ length: span + 1 }, (_, n) => gain * tone(sweepFrequency, n)),
+        apparent: positions.map(p => gain * tone(alias, p)),
+      };
+    }
+    if (!expression) return null;
+    const samples = antiAlias ? sampleWithPrefilter(expression, numPoints, sampleRate) : sampleExpression(expression, numPoints, sampleRate);
+    const components = getFrequencyComponents(fft(samples), numPoints);
+    const peak = components.reduce((m, c) => Math.max(m, c.amplitude), 0);
+    const significant = components.filter(c => c.amplitude > peak * 1e-6);
+    return {
+      positions,
+      continuous: sampleExpressionAt(expression, positions, numPoints, sampleRate),
+      samples: samples.slice(0, span + 1),
+      apparent: positions.map(p => significant.reduce((sum, c) => sum + componentValue(c, numPoints, p), 0)),
+    };
+  }, [fromEquation, expression, antiAlias, numPoints, sampleRate, span, sweepFrequency]);
+
+  const maxFrequency = Math.min(
+    (OVERSAMPLING * sampleRate) / 2,
+    Math.max(sweepMax, ...tones.map(t => t.frequency * 1.1))
+  );
+
+  const plot = () => {
+    if (!curves) return null;
+    const peak = Math.max(1e-9, ...curves.continuous.map(Math.abs), ...curves.samples.map(Math.abs), ...curves.apparent.map(Math.abs));
+    const toX = (p: number) => (p / span) * TIME_WIDTH;
+    const toY = (v: number) => TIME_HEIGHT / 2 - (v / peak) * (TIME_HEIGHT / 2 - 8);
+    const line = (values: number[]) => values.map((v, i) => `${toX(curves.positions[i]).toFixed(1)},${toY(v).toFixed(1)}`).join(' ');
+    return (
+      <svg viewBox={`0 0 ${TIME_WIDTH} ${TIME_HEIGHT}`} className="w-full bg-slate-900 rounded-lg border border-slate-800">
+        <line x1={0} y1={TIME_HEIGHT / 2} x2={TIME_WIDTH} y2={TIME_HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" />
+        <polyline points={line(curves.continuous)} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+        <polyline points={line(curves.apparent)} fill="none" stroke="#a3e635" strokeDasharray="6 3" strokeWidth={1.5} />
+        {curves.samples.map((v, n) => (
+          <g key={n}>
+            <line x1={toX(n)} x2={toX(n)} y1={TIME_HEIGHT / 2} y2={toY(v)} stroke="#f59e0b" strokeOpacity={0.6} />
+            <circle cx={toX(n)} cy={toY(v)} r={span > 64 ? 1.5 : 3} fill="#f59e0b" />
+          </g>
+        ))}
+      </svg>
+    );
+  };
+
+  const spectrum = () => {
+    const toX = (f: number) => (f / maxFrequency) * SPECTRUM_WIDTH;
+    const peak = Math.max(1e-9, ...tones.map(t => t.amplitude));
+    const toY = (a: number) => SPECTRUM_HEIGHT - 14 - (a / peak) * (SPECTRUM_HEIGHT - 24);
+    const boundaries = Array.from({ length: Math.floor(maxFrequency / nyquist) }, (_, i) => (i + 1) * nyquist);
+    const images = tones.flatMap(t => {
+      const out: number[] = [];
+      for (let m = 1; m * sampleRate - t.alias <= maxFrequency; m++) {
+        out.push(m * sampleRate - t.alias, m * sampleRate + t.alias);
+      }
+      return out.filter(f => f <= maxFrequency).map(f => ({ f, amplitude: t.amplitude * (antiAlias ? prefilterGain(t.frequency, sampleRate) : 1) }));
+    });
+    const response = antiAlias
+      ? Array.from({ length: 200 }, (_, i) => {
+          const f = (i / 199) * maxFrequency;
+          return `${toX(f).toFixed(1)},${(SPECTRUM_HEIGHT - 14 - prefilterGain(f, sampleRate) * (SPECTRUM_HEIGHT - 24)).toFixed(1)}`;
+        }).join(' ')
+      : null;
+    return (
+      <svg viewBox={`0 0 ${SPECTRUM_WIDTH} ${SPECTRUM_HEIGHT}`} className="w-full bg-slate-900 rounded-lg border border-slate-800">
+        <rect x={0} y={0} width={toX(nyquist)} height={SPECTRUM_HEIGHT - 14} fill="#3b82f6" fillOpacity={0.08} />
+        {boundaries.map((f, i) => (
+          <g key={f}>
+            <line x1={toX(f)} x2={toX(f)} y1={0} y2={SPECTRUM_HEIGHT - 14} stroke="#475569" strokeDasharray={i % 2 === 0 ? '4 4' : undefined} />
+            <text x={toX(f)} y={SPECTRUM_HEIGHT - 3} textAnchor="middle" fontSize={9} fill="#64748b">
+              {i % 2 === 0 ? (i === 0 ? 'fs/2' : `${i + 1}fs/2`) : i === 1 ? 'fs' : `${(i + 1) / 2}fs`}
+            </text>
+          </g>
+        ))}
+        {response && <polyline points={response} fill="none" stroke="#a3e635" strokeOpacity={0.6} strokeDasharray="3 3" />}
+        {images.map((image, i) => (
+          <line key={`img-${i}`} x1={toX(image.f)} x2={toX(image.f)} y1={SPECTRUM_HEIGHT - 14} y2={toY(image.amplitude)} stroke="#f59e0b" strokeOpacity={0.3} strokeWidth={2} />
+        ))}
+        {tones.map((t, i) => (
+          <g key={i}>
+            <line x1={toX(t.frequency)} x2={toX(t.frequency)} y1={SPECTRUM_HEIGHT - 14} y2={toY(t.amplitude)} stroke="#3b82f6" strokeWidth={2} />
+            <line
+              x1={toX(t.alias)}
+              x2={toX(t.alias)}
+              y1={SPECTRUM_HEIGHT - 14}
+              y2={toY(t.amplitude * (antiAlias ? prefilterGain(t.frequency, sampleRate) : 1))}
+              stroke="#f59e0b"
+              strokeWidth={3}
+            />
+          </g>
+        ))}
+      </svg>
+    );
+  };
+
+  const modeButton = (value: typeof mode, label: string) => (
+    <button
+      onClick={() => {
+        setMode(value);
+        setSweeping(false);
+      }}
+      className={`px-3 py-1 rounded-md text-[10px] font-black uppercase transition-all ${mode === value ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const sweepTone = tones[0];
+
+  return (
+    <div className="w-full h-full p-8 overflow-y-auto custom-scrollbar bg-slate-950">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex bg-slate-900 p-1 rounded-lg">
+            {modeButton('equation', 'Equation')}
+            {modeButton('sweep', 'Tone sweep')}
+          </div>
+          <label className="flex items-center space-x-2 text-[10px] font-bold uppercase text-slate-400" title="Low-pass the signal at the Nyquist frequency before sampling it">
+            <input type="checkbox" checked={antiAlias} onChange={(e) => onSourceChange({ ...source, antiAlias: e.target.checked })} className="accent-amber-500" />
+            <span>Anti-alias prefilter</span>
+          </label>
+          <span className="text-[10px] font-mono text-slate-500">
+            fs = {formatFrequency(sampleRate)} · Nyquist = {formatFrequency(nyquist)} · N = {numPoints}
+          </span>
+        </div>
+
+        {fromEquation && !expression ? (
+          <p className="text-sm text-slate-400 bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+            {usable
+              ? 'Fix the formula in the sidebar to see how it is sampled.'
+              : 'Sampling needs the analytic signal: switch the input to a real (not complex) Equation, or try the tone sweep.'}
+          </p>
+        ) : (
+          <>
+            {!fromEquation && sweepTone && (
+              <div className="flex flex-wrap items-center gap-4">
+                <button
+                  onClick={() => setSweeping(!sweeping)}
+                  className="px-4 py-1.5 text-[10px] font-black uppercase rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-all"
+                >
+                  {sweeping ? 'Pause' : 'Sweep'}
+                </button>
+                <div className="flex-1 min-w-[240px] space-y-1">
+                  <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+                    <span>Tone frequency</span>
+                    <span className={`font-mono ${sweepTone.zone > 1 ? 'text-rose-400' : 'text-blue-400'}`}>
+                      {formatFrequency(sweepTone.frequency)} → appears at {formatFrequency(sweepTone.alias)}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={sweepMax}
+                    step={sweepMax / 800}
+                    value={sweepFrequency}
+                    onChange={(e) => {
+                      setSweeping(false);
+                      setSweepFrequency(Number(e.target.value));
+                    }}
+                    className="w-full accent-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <div className="flex flex-wrap justify-between gap-2 text-[10px] font-bold uppercase">
+                <span className="text-slate-400">
+                  <span className="text-blue-400">Continuous</span> · <span className="text-amber-400">samples</span> · <span className="text-lime-400">what the samples describe</span>
+                </span>
+                <label className="flex items-center space-x-2 text-slate-500">
+                  <span>First {span} samples</span>
+                  <input
+                    type="range"
+                    min={Math.min(MIN_SPAN, numPoints)}
+                    max={Math.min(MAX_SPAN, numPoints)}
+                    value={span}
+                    onChange={(e) => setRequestedSpan(Number(e.target.value))}
+                    className="w-32 accent-blue-500"
+                  />
+                </label>
+              </div>
+              {plot()}
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] font-bold uppercase">
+                <span className="text-slate-400">
+                  <span className="text-blue-400">True tones</span> · <span className="text-amber-400">where they land, with images every fs</span>
+                  {antiAlias && <span className="text-lime-400"> · prefilter response</span>}
+                </span>
+                <span className="text-slate-500">Shaded: 0..fs/2</span>
+              </div>
+              {spectrum()}
+            </div>
+
+            {fromEquation && (
+              <table className="w-full text-[10px] font-mono">
+                <thead>
+                  <tr className="text-slate-500 uppercase text-left">
+                    <th className="py-1 font-bold">True frequency</th>
+                    <th className="py-1 font-bold">Amplitude</th>
+                    <th className="py-1 font-bold">Nyquist zone</th>
+                    <th className="py-1 font-bold">Appears at</th>
+                    {antiAlias && <th className="py-1 font-bold">Prefilter gain</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {tones.map((t, i) => (
+                    <tr key={i} className={`border-t border-slate-800 ${t.zone > 1 ? 'text-rose-300' : 'text-slate-300'}`}>
+                      <td className="py-1">{formatFrequency(t.frequency)}</td>
+                      <td className="py-1">{t.amplitude.toFixed(3)}</td>
+                      <td className="py-1">{t.zone}{t.zone > 1 ? ' (aliased)' : ''}</td>
+                      <td className="py-1">{formatFrequency(t.alias)}</td>
+                      {antiAlias && <td className="py-1">{prefilterGain(t.frequency, sampleRate).toFixed(3)}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <p className="text-[10px] text-slate-500 leading-relaxed">
+              A tone at f gives the same samples as one at |f − m·fs| for any whole m, so everything above fs/2 folds back
+              into 0..fs/2. The prefilter removes those tones before sampling instead. Tones are searched up to {formatFrequency((OVERSAMPLING * sampleRate) / 2)}.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SamplingView;
@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { Line, Html } from '@react-three/drei';
+import * as THREE from 'three';
+
+export const SafeLine = ({ points, color, lineWidth = 2, opacity = 1 }: { points: THREE.Vector3[], color: string, lineWidth?: number, opacity?: number }) => {
+  const validPoints = useMemo(() => {
+    return points.filter(p => isFinite(p.x) && isFinite(p.y) && isFinite(p.z));
+  }, [points]);
+
+  if (validPoints.length < 2) return null;
+
+  return (
+    <Line
+      points={validPoints}
+      color={color}
+      lineWidth={lineWidth}
+      transparent={opacity < 1}
+      opacity={opacity}
+    />
+  );
+};
+
+export const Label = ({ position, text, color, bold = false }: { position: [number, number, number], text: string, color: string, bold?: boolean }) => (
+  <Html position={position} center distanceFactor={15}>
+    {/* data-scene-label lets PNG export redraw the label into the image */}
+    <div data-scene-label style={{
+      color,
+      fontSize: bold ? '12px' : '10px',
+      whiteSpace: 'nowrap',
+      fontWeight: bold ? '900' : 'bold',
+      pointerEvents: 'none',
+      background: 'rgba(2, 6, 23, 0.9)',
+      padding: '2px 8px',
+      borderRadius: '4px',
+      border: `1px solid ${color}${bold ? '88' : '44'}`,
+      textTransform: 'uppercase',
+      letterSpacing: '0.05em',
+      boxShadow: '0 4px 12px rgba(0,0,0,0.5)',
+      zIndex: bold ? 10 : 1
+    }}>
+      {text}
+    </div>
+  </Html>
+);
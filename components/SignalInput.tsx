@@ -1,151 +1,211 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { InputMode } from '../types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { InputMode, SignalSource, WavData } from '../types';
+import { parseWav, extractSegment } from '../services/wav';
+import { formatTime } from '../services/units';
+import DrawCanvas from './DrawCanvas';
+import { compileExpression, sampleExpression, ExpressionError, CompiledExpression } from '../services/expression';
+import { sampleWithPrefilter } from '../services/sampling';
 
 interface SignalInputProps {
   signal: number[];
   numPoints: number;
+  sampleRate: number;
   onSignalUpdate: (signal: number[] | ((prev: number[]) => number[])) => void;
+  onSampleRateChange: (sampleRate: number) => void;
+  onImagUpdate: (imag: number[] | null) => void;
   currentMode: InputMode;
   onModeChange: (mode: InputMode) => void;
+  source: SignalSource; // Formula and number text, owned by the parent so sessions can save it
+  onSourceChange: (source: SignalSource) => void;
+  onEditStart?: () => void; // A drawing gesture begins; everything until onEditEnd is one undo step
+  onEditEnd?: () => void;
 }
 
-const SignalInput: React.FC<SignalInputProps> = ({ signal, numPoints, onSignalUpdate, currentMode, onModeChange }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [equation, setEquation] = useState('Math.sin(2 * Math.PI * 3 * x) + 0.5 * Math.sin(2 * Math.PI * 10 * x)');
-  const [rawNumbers, setRawNumbers] = useState('');
-
-  // Draw the signal waveform on the canvas
-  const drawWaveform = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const width = canvas.width;
-    const height = canvas.height;
-
-    // Clear background
-    ctx.clearRect(0, 0, width, height);
-
-    // Draw baseline
-    ctx.beginPath();
-    ctx.strokeStyle = '#334155';
-    ctx.setLineDash([5, 5]);
-    ctx.moveTo(0, height / 2);
-    ctx.lineTo(width, height / 2);
-    ctx.stroke();
-    ctx.setLineDash([]);
-
-    // Draw signal
-    ctx.beginPath();
-    ctx.strokeStyle = '#3b82f6';
-    ctx.lineWidth = 2;
-    ctx.lineJoin = 'round';
-
-    for (let i = 0; i < signal.length; i++) {
-      const x = (i / (signal.length - 1)) * width;
-      // Map signal -1..1 to height..0
-      const y = ((-signal[i] + 1) / 2) * height;
-
-      if (i === 0) ctx.moveTo(x, y);
-      else ctx.lineTo(x, y);
-    }
-    ctx.stroke();
-  }, [signal]);
+interface CompiledFormula {
+  expression: CompiledExpression | null;
+  error: ExpressionError | null;
+  errorLine: { text: string; column: number } | null; // Source line with the error, column relative to it
+}
 
-  useEffect(() => {
-    if (currentMode === InputMode.DRAW) {
-      drawWaveform();
-    }
-  }, [signal, currentMode, drawWaveform]);
-
-  // Handle user drawing input
-  const updateSignalAtPoint = useCallback((clientX: number, clientY: number) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const xRatio = (clientX - rect.left) / rect.width;
-    const yRatio = (clientY - rect.top) / rect.height;
-
-    const index = Math.floor(Math.min(Math.max(xRatio * numPoints, 0), numPoints - 1));
-    const val = (0.5 - yRatio) * 2; // Map 0..1 to 1..-1 then scale
-
-    onSignalUpdate((prev) => {
-      const next = [...prev];
-      // Simple debounce/smooth: apply to a small neighborhood for "brush" effect
-      const brushSize = 2;
-      for (let i = -brushSize; i <= brushSize; i++) {
-        const targetIdx = index + i;
-        if (targetIdx >= 0 && targetIdx < numPoints) {
-          next[targetIdx] = val;
-        }
-      }
-      return next;
-    });
-  }, [numPoints, onSignalUpdate]);
+const compileFormula = (source: string): CompiledFormula => {
+  try {
+    return { expression: compileExpression(source), error: null, errorLine: null };
+  } catch (e) {
+    if (!(e instanceof ExpressionError)) throw e;
+    const offset = e.column - 1;
+    const lineStart = source.lastIndexOf('\n', offset - 1) + 1;
+    const lineEnd = source.indexOf('\n', offset);
+    return {
+      expression: null,
+      error: e,
+      errorLine: { text: source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd), column: offset - lineStart },
+    };
+  }
+};
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    setIsDrawing(true);
-    updateSignalAtPoint(e.clientX, e.clientY);
-  };
+const FormulaField = ({ label, value, onChange, compiled, placeholder }: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  compiled: CompiledFormula;
+  placeholder: string;
+}) => (
+  <div className="space-y-1">
+    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{label}</label>
+    <textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      spellCheck={false}
+      className={`w-full h-24 bg-slate-900 border rounded-lg p-3 font-mono text-sm text-blue-300 focus:outline-none focus:ring-2 ${compiled.error ? 'border-rose-500/60 focus:ring-rose-500' : 'border-slate-700 focus:ring-blue-500'}`}
+      placeholder={placeholder}
+    />
+    {compiled.error && compiled.errorLine && (
+      <div className="bg-rose-950/40 border border-rose-900/60 rounded-lg p-2 space-y-1">
+        <p className="text-[10px] font-bold text-rose-400">
+          Column {compiled.error.column}: {compiled.error.message}
+        </p>
+        <pre className="text-[10px] font-mono text-slate-300 overflow-x-auto">
+          {compiled.errorLine.text}{'\n'}
+          <span className="text-rose-400">{' '.repeat(compiled.errorLine.column)}^</span>
+        </pre>
+      </div>
+    )}
+  </div>
+);
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (isDrawing) {
-      updateSignalAtPoint(e.clientX, e.clientY);
-    }
-  };
+/**
+ * Splits pasted text into I/Q pairs, one "i q" or "i, q" pair per line.
+ */
+const parseIqPairs = (text: string) => {
+  const re: number[] = [];
+  const im: number[] = [];
+  for (const line of text.split(/\n/)) {
+    const values = line.trim().split(/[\s,;]+/).filter(Boolean).map(Number);
+    if (values.length < 2 || values.some(v => isNaN(v))) continue;
+    re.push(values[0]);
+    im.push(values[1]);
+  }
+  return { re, im };
+};
 
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (isDrawing) {
-      updateSignalAtPoint(e.touches[0].clientX, e.touches[0].clientY);
-    }
-  };
+// Nearest-sample resampling of loaded values to numPoints
+const resampleNearest = (values: number[], numPoints: number) =>
+  new Array(numPoints).fill(0).map((_, i) => {
+    const idx = Math.floor((i / numPoints) * values.length);
+    return values[idx] || 0;
+  });
 
-  const handleMouseUp = () => setIsDrawing(false);
+const SignalInput: React.FC<SignalInputProps> = ({ signal, numPoints, sampleRate, onSignalUpdate, onSampleRateChange, onImagUpdate, currentMode, onModeChange, source, onSourceChange, onEditStart, onEditEnd }) => {
+  const { equation, imagEquation, complexEquation, rawNumbers, iqPairs, antiAlias } = source;
+  const setEquation = (value: string) => onSourceChange({ ...source, equation: value });
+  const setImagEquation = (value: string) => onSourceChange({ ...source, imagEquation: value });
+  const setComplexEquation = (value: boolean) => onSourceChange({ ...source, complexEquation: value });
+  const setRawNumbers = (value: string) => onSourceChange({ ...source, rawNumbers: value });
+  const setIqPairs = (value: boolean) => onSourceChange({ ...source, iqPairs: value });
+  const setAntiAlias = (value: boolean) => onSourceChange({ ...source, antiAlias: value });
+  const [wav, setWav] = useState<WavData | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [segmentStart, setSegmentStart] = useState(0); // In samples
+  const [nativeRate, setNativeRate] = useState(true); // Segment length follows numPoints
+  const [segmentLength, setSegmentLength] = useState(128);
 
   const applyNumbers = useCallback(() => {
+    if (iqPairs) {
+      const { re, im } = parseIqPairs(rawNumbers);
+      if (re.length === 0) return;
+      onSignalUpdate(resampleNearest(re, numPoints));
+      onImagUpdate(resampleNearest(im, numPoints));
+      return;
+    }
     const nums = rawNumbers.split(/[\s,]+/).map(Number).filter(n => !isNaN(n));
     if (nums.length === 0) return;
-    const final = new Array(numPoints).fill(0).map((_, i) => {
-      const idx = Math.floor((i / numPoints) * nums.length);
-      return nums[idx] || 0;
-    });
-    onSignalUpdate(final);
-  }, [rawNumbers, numPoints, onSignalUpdate]);
+    onSignalUpdate(resampleNearest(nums, numPoints));
+    onImagUpdate(null);
+  }, [rawNumbers, iqPairs, numPoints, onSignalUpdate, onImagUpdate]);
+
+  // Compile once per edit; errors are shown inline under the formula
+  const compiledEquation = useMemo(() => compileFormula(equation), [equation]);
+  const compiledImagEquation = useMemo(() => compileFormula(imagEquation), [imagEquation]);
+  const equationReady = !!compiledEquation.expression && (!complexEquation || !!compiledImagEquation.expression);
 
   const applyEquation = useCallback(() => {
+    if (!compiledEquation.expression) return;
+    const sample = antiAlias ? sampleWithPrefilter : sampleExpression;
+    if (complexEquation) {
+      if (!compiledImagEquation.expression) return;
+      onSignalUpdate(sample(compiledEquation.expression, numPoints, sampleRate));
+      onImagUpdate(sample(compiledImagEquation.expression, numPoints, sampleRate));
+      return;
+    }
+    onSignalUpdate(sample(compiledEquation.expression, numPoints, sampleRate));
+    onImagUpdate(null);
+  }, [compiledEquation, compiledImagEquation, complexEquation, antiAlias, numPoints, sampleRate, onSignalUpdate, onImagUpdate]);
+
+  const effectiveLength = wav ? Math.min(nativeRate ? numPoints : segmentLength, wav.samples.length) : 0;
+
+  const applyFile = useCallback(() => {
+    if (!wav || effectiveLength === 0) return;
+    const start = Math.min(segmentStart, wav.samples.length - effectiveLength);
+    onSignalUpdate(extractSegment(wav.samples, start, effectiveLength, numPoints));
+    onImagUpdate(null);
+    // Resampling a segment to numPoints scales the effective sample rate
+    onSampleRateChange((wav.sampleRate * numPoints) / effectiveLength);
+  }, [wav, segmentStart, effectiveLength, numPoints, onSignalUpdate, onSampleRateChange, onImagUpdate]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
     try {
-      const newSignal = new Array(numPoints).fill(0).map((_, i) => {
-        const x = i / numPoints;
-        const fn = new Function('x', `return ${equation}`);
-        const val = fn(x);
-        return isNaN(val) ? 0 : val;
-      });
-      onSignalUpdate(newSignal);
-    } catch (e) {
-      // alert('Invalid equation format. Use "x" as the variable (0 to 1).'); 
-      // Silently fail or log during auto-update to avoid annoying popups
-      console.warn("Equation error:", e);
+      const parsed = parseWav(await file.arrayBuffer());
+      if (parsed.samples.length === 0) throw new Error('File contains no samples');
+      setWav(parsed);
+      setFileName(file.name);
+      setFileError(null);
+      setSegmentStart(0);
+      setSegmentLength(Math.min(numPoints, parsed.samples.length));
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : String(err));
     }
-  }, [equation, numPoints, onSignalUpdate]);
+  };
 
-  // Re-calculate signal when resolution changes (if in Equation or Numbers mode)
+  // Min/max envelope of the whole file, with the analyzed segment highlighted
+  const fileOverview = useMemo(() => {
+    if (!wav) return null;
+    const columns = 300;
+    const total = wav.samples.length;
+    const bars: { x: number; min: number; max: number }[] = [];
+    for (let c = 0; c < columns; c++) {
+      const from = Math.floor((c / columns) * total);
+      const to = Math.max(from + 1, Math.floor(((c + 1) / columns) * total));
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = from; i < to && i < total; i++) {
+        min = Math.min(min, wav.samples[i]);
+        max = Math.max(max, wav.samples[i]);
+      }
+      if (isFinite(min)) bars.push({ x: c, min, max });
+    }
+    return bars;
+  }, [wav]);
+
+  // Re-calculate signal when resolution changes (if in Equation, Numbers or File mode)
   useEffect(() => {
     if (currentMode === InputMode.EQUATION) {
       applyEquation();
     } else if (currentMode === InputMode.NUMBERS) {
       applyNumbers();
+    } else if (currentMode === InputMode.FILE) {
+      applyFile();
     }
     // For DRAW mode, we rely on the parent App.tsx resampling logic
-  }, [numPoints, currentMode, applyEquation, applyNumbers]);
+  }, [numPoints, currentMode, applyEquation, applyNumbers, applyFile]);
 
   return (
     <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 shadow-xl">
       <div className="flex space-x-2 mb-4 bg-slate-900 p-1 rounded-lg">
-        {[InputMode.DRAW, InputMode.EQUATION, InputMode.NUMBERS].map(mode => (
+        {[InputMode.DRAW, InputMode.EQUATION, InputMode.NUMBERS, InputMode.FILE].map(mode => (
           <button
             key={mode}
             onClick={() => onModeChange(mode)}
@@ -161,56 +221,57 @@ const SignalInput: React.FC<SignalInputProps> = ({ signal, numPoints, onSignalUp
 
       <div className="min-h-[200px]">
         {currentMode === InputMode.DRAW && (
-          <div className="space-y-2">
-            <div className="flex justify-between items-end mb-1">
-              <p className="text-xs text-slate-400 italic">Drag to draw waveform</p>
-              <button
-                onClick={() => onSignalUpdate(new Array(numPoints).fill(0))}
-                className="text-[10px] text-slate-500 hover:text-slate-300 uppercase font-bold"
-              >
-                Clear
-              </button>
-            </div>
-            <div className="relative bg-slate-900 border border-slate-700 rounded-lg overflow-hidden h-40">
-              <canvas
-                ref={canvasRef}
-                width={400}
-                height={160}
-                onMouseDown={handleMouseDown}
-                onMouseUp={handleMouseUp}
-                onMouseLeave={handleMouseUp}
-                onMouseMove={handleMouseMove}
-                onTouchStart={() => setIsDrawing(true)}
-                onTouchEnd={handleMouseUp}
-                onTouchMove={handleTouchMove}
-                className="w-full h-full cursor-crosshair"
-              />
-            </div>
-          </div>
+          <DrawCanvas signal={signal} onSignalUpdate={onSignalUpdate} onEditStart={onEditStart} onEditEnd={onEditEnd} />
         )}
 
         {currentMode === InputMode.EQUATION && (
           <div className="space-y-4">
             <div className="space-y-1">
-              <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Formula (JavaScript)</label>
-              <textarea
+              <label className="flex items-center space-x-2 text-[10px] font-bold uppercase text-slate-400">
+                <input type="checkbox" checked={complexEquation} onChange={(e) => setComplexEquation(e.target.checked)} className="accent-fuchsia-500" />
+                <span>Complex signal (re / im)</span>
+              </label>
+              <label className="flex items-center space-x-2 text-[10px] font-bold uppercase text-slate-400" title="Low-pass the formula at the Nyquist frequency before sampling it">
+                <input type="checkbox" checked={antiAlias} onChange={(e) => setAntiAlias(e.target.checked)} className="accent-amber-500" />
+                <span>Anti-alias prefilter</span>
+              </label>
+              <FormulaField
+                label={complexEquation ? 'Real part (re)' : 'Formula'}
                 value={equation}
-                onChange={(e) => setEquation(e.target.value)}
-                className="w-full h-24 bg-slate-900 border border-slate-700 rounded-lg p-3 font-mono text-sm text-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                placeholder="Math.sin(2 * Math.PI * x)..."
+                onChange={setEquation}
+                compiled={compiledEquation}
+                placeholder="sin(2 * pi * 5 * t)..."
               />
+              {complexEquation && (
+                <FormulaField
+                  label="Imaginary part (im)"
+                  value={imagEquation}
+                  onChange={setImagEquation}
+                  compiled={compiledImagEquation}
+                  placeholder="sin(2 * pi * 5 * t)..."
+                />
+              )}
+              <p className="text-[10px] text-slate-500">
+                <span className="font-mono text-slate-400">x</span> 0..1 · <span className="font-mono text-slate-400">t</span> seconds · <span className="font-mono text-slate-400">n</span> index · <span className="font-mono text-slate-400">fs</span> sample rate · <span className="font-mono text-slate-400">N</span> points · <span className="font-mono text-slate-400">T</span> duration
+              </p>
+              <p className="text-[10px] text-slate-500">
+                Built-ins: <span className="font-mono text-slate-400">sin cos exp sqrt abs square(f, duty) saw(f) tri(f) chirp(f0, f1) step(t0) rect(t0, t1) noise(seed)</span> · constants <span className="font-mono text-slate-400">pi tau e</span>
+              </p>
             </div>
             <button
               onClick={applyEquation}
-              className="w-full py-2 bg-blue-600 hover:bg-blue-500 rounded-lg font-semibold transition-colors shadow-lg"
+              disabled={!equationReady}
+              className="w-full py-2 disabled:opacity-40 bg-blue-600 hover:bg-blue-500 rounded-lg font-semibold transition-colors shadow-lg"
             >
               Generate Signal
             </button>
             <div className="grid grid-cols-2 gap-2">
-              <button onClick={() => setEquation('Math.sin(2 * Math.PI * 5 * x)')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">5Hz Sine</button>
-              <button onClick={() => setEquation('Math.sin(2 * Math.PI * x) + Math.sin(2 * Math.PI * 10 * x) * 0.3')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">Sum of Sines</button>
-              <button onClick={() => setEquation('x < 0.5 ? 1 : -1')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">Square Wave</button>
-              <button onClick={() => setEquation('Math.random() - 0.5')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">White Noise</button>
+              <button onClick={() => setEquation('sin(2 * pi * 5 * t)')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">5Hz Sine</button>
+              <button onClick={() => setEquation('sin(2 * pi * x) + sin(2 * pi * 10 * x) * 0.3')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">Sum of Sines</button>
+              <button onClick={() => setEquation('square(1 / T)')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">Square Wave</button>
+              <button onClick={() => setEquation('0.5 * noise(1)')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">White Noise</button>
+              <button onClick={() => setEquation('sin(2 * pi * 4.5 * x)')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">Leaky 4.5Hz</button>
+              <button onClick={() => setEquation('chirp(0, fs / 4)')} className="text-[10px] bg-slate-700 hover:bg-slate-600 p-1 rounded">Chirp</button>
             </div>
           </div>
         )}
@@ -218,12 +279,18 @@ const SignalInput: React.FC<SignalInputProps> = ({ signal, numPoints, onSignalUp
         {currentMode === InputMode.NUMBERS && (
           <div className="space-y-4">
             <div className="space-y-1">
-              <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Data Points</label>
+              <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Data Points</label>
+                <label className="flex items-center space-x-2 text-[10px] font-bold uppercase text-slate-400">
+                  <input type="checkbox" checked={iqPairs} onChange={(e) => setIqPairs(e.target.checked)} className="accent-fuchsia-500" />
+                  <span>I/Q pairs</span>
+                </label>
+              </div>
               <textarea
                 value={rawNumbers}
                 onChange={(e) => setRawNumbers(e.target.value)}
                 className="w-full h-24 bg-slate-900 border border-slate-700 rounded-lg p-3 font-mono text-sm text-emerald-300 focus:outline-none focus:ring-2 focus:ring-emerald-500"
-                placeholder="0.1, 0.5, -0.3, 0.8..."
+                placeholder={iqPairs ? '0.1 0.0\n0.5 0.3\n-0.3 0.7...' : '0.1, 0.5, -0.3, 0.8...'}
               />
             </div>
             <button
@@ -234,6 +301,84 @@ const SignalInput: React.FC<SignalInputProps> = ({ signal, numPoints, onSignalUp
             </button>
           </div>
         )}
+
+        {currentMode === InputMode.FILE && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">WAV File</label>
+              <input
+                type="file"
+                accept=".wav,audio/wav,audio/x-wav"
+                onChange={handleFileChange}
+                className="w-full text-xs text-slate-400 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:bg-amber-600 file:text-white file:font-semibold hover:file:bg-amber-500"
+              />
+              {fileError && <p className="text-[10px] text-rose-400 font-bold">{fileError}</p>}
+            </div>
+
+            {wav && fileOverview && (
+              <>
+                <div className="text-[10px] text-slate-500 font-mono">
+                  {fileName} · {wav.sampleRate}Hz · {wav.bitsPerSample}-bit · {wav.channels === 1 ? 'mono' : `${wav.channels}ch → mono`} · {formatTime(wav.samples.length / wav.sampleRate)}
+                </div>
+                <svg viewBox="0 0 300 60" preserveAspectRatio="none" className="w-full h-14 bg-slate-900 rounded-lg border border-slate-700">
+                  <rect
+                    x={(segmentStart / wav.samples.length) * 300}
+                    y={0}
+                    width={Math.max(1, (effectiveLength / wav.samples.length) * 300)}
+                    height={60}
+                    fill="#f59e0b"
+                    fillOpacity={0.2}
+                  />
+                  {fileOverview.map(bar => (
+                    <line key={bar.x} x1={bar.x + 0.5} x2={bar.x + 0.5} y1={30 - bar.max * 28} y2={30 - bar.min * 28 + 0.5} stroke="#f59e0b" strokeWidth={1} />
+                  ))}
+                </svg>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+                    <span>Segment Start</span>
+                    <span className="font-mono text-amber-400">{formatTime(segmentStart / wav.sampleRate, 3)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={Math.max(0, wav.samples.length - effectiveLength)}
+                    value={Math.min(segmentStart, Math.max(0, wav.samples.length - effectiveLength))}
+                    onChange={(e) => setSegmentStart(Number(e.target.value))}
+                    className="w-full accent-amber-500"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+                    <label className="flex items-center space-x-2">
+                      <input type="checkbox" checked={nativeRate} onChange={(e) => setNativeRate(e.target.checked)} className="accent-amber-500" />
+                      <span>Native rate ({numPoints} samples)</span>
+                    </label>
+                    <span className="font-mono text-amber-400">{formatTime(effectiveLength / wav.sampleRate, 3)}</span>
+                  </div>
+                  {!nativeRate && (
+                    <input
+                      type="range"
+                      min={2}
+                      max={wav.samples.length}
+                      value={Math.min(segmentLength, wav.samples.length)}
+                      onChange={(e) => setSegmentLength(Number(e.target.value))}
+                      className="w-full accent-amber-500"
+                    />
+                  )}
+                </div>
+
+                <button
+                  onClick={applyFile}
+                  className="w-full py-2 bg-amber-600 hover:bg-amber-500 rounded-lg font-semibold transition-colors shadow-lg"
+                >
+                  Analyze Segment
+                </button>
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
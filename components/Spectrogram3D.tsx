@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { Spectrogram, StftSettings, WindowType } from '../types';
+import { computeStft } from '../services/stft';
+import { WINDOW_LABELS } from '../services/window';
+import { viridis } from '../services/colormap';
+import { formatFrequency, formatTime } from '../services/units';
+import { SafeLine, Label } from './SceneHelpers';
+
+interface Spectrogram3DProps {
+  signal: number[];
+  sampleRate: number;
+}
+
+type RenderStyle = 'surface' | 'waterfall';
+
+const FRAME_SIZES = [8, 16, 32, 64, 128, 256, 512, 1024];
+const DB_RANGE = 60;
+
+const timeScale = 10;
+const heightScale = 4;
+const maxZ = 12;
+
+/**
+ * Normalized 0..1 height of a bin, either linear or on a dB scale relative to the peak.
+ */
+const toHeight = (amplitude: number, max: number, useDb: boolean) => {
+  if (max <= 0) return 0;
+  if (!useDb) return amplitude / max;
+  const db = 20 * Math.log10(Math.max(amplitude / max, 1e-12));
+  return Math.max(0, (db + DB_RANGE) / DB_RANGE);
+};
+
+const SurfaceMesh = ({ spectrogram, useDb }: { spectrogram: Spectrogram; useDb: boolean }) => {
+  const geometry = useMemo(() => {
+    const { frames, maxAmplitude } = spectrogram;
+    // A single frame still needs two columns to form a surface
+    const columns = frames.length === 1 ? [frames[0], frames[0]] : frames;
+    const cols = columns.length;
+    const rows = columns[0]?.length ?? 0;
+
+    const positions = new Float32Array(cols * rows * 3);
+    const colors = new Float32Array(cols * rows * 3);
+    for (let f = 0; f < cols; f++) {
+      for (let k = 0; k < rows; k++) {
+        const h = toHeight(columns[f][k], maxAmplitude, useDb);
+        const idx = (f * rows + k) * 3;
+        positions[idx] = (f / (cols - 1) - 0.5) * timeScale;
+        positions[idx + 1] = h * heightScale;
+        positions[idx + 2] = rows > 1 ? (k / (rows - 1)) * maxZ : 0;
+        const [r, g, b] = viridis(h);
+        colors[idx] = r;
+        colors[idx + 1] = g;
+        colors[idx + 2] = b;
+      }
+    }
+
+    const indices: number[] = [];
+    for (let f = 0; f < cols - 1; f++) {
+      for (let k = 0; k < rows - 1; k++) {
+        const a = f * rows + k;
+        const b = (f + 1) * rows + k;
+        indices.push(a, b, a + 1, b, b + 1, a + 1);
+      }
+    }
+
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    geo.setIndex(indices);
+    geo.computeVertexNormals();
+    return geo;
+  }, [spectrogram, useDb]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry}>
+      <meshStandardMaterial vertexColors side={THREE.DoubleSide} metalness={0.1} roughness={0.7} />
+    </mesh>
+  );
+};
+
+const WaterfallLines = ({ spectrogram, useDb }: { spectrogram: Spectrogram; useDb: boolean }) => {
+  const lines = useMemo(() => {
+    const { frames, maxAmplitude } = spectrogram;
+    const cols = frames.length;
+    return frames.map((frame, f) => {
+      const x = cols > 1 ? (f / (cols - 1) - 0.5) * timeScale : 0;
+      let peak = 0;
+      const points = Array.from(frame, (a, k) => {
+        const h = toHeight(a, maxAmplitude, useDb);
+        peak = Math.max(peak, h);
+        return new THREE.Vector3(x, h * heightScale, frame.length > 1 ? (k / (frame.length - 1)) * maxZ : 0);
+      });
+      const [r, g, b] = viridis(peak);
+      return { points, color: `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})` };
+    });
+  }, [spectrogram, useDb]);
+
+  return (
+    <>
+      {lines.map((line, i) => (
+        <SafeLine key={i} points={line.points} color={line.color} lineWidth={1.5} />
+      ))}
+    </>
+  );
+};
+
+const Spectrogram3D: React.FC<Spectrogram3DProps> = ({ signal, sampleRate }) => {
+  const [settings, setSettings] = useState<StftSettings>({
+    frameSize: 32,
+    hop: 8,
+    window: { type: WindowType.HANN, kaiserBeta: 8.6 },
+  });
+  const [useDb, setUseDb] = useState(false);
+  const [renderStyle, setRenderStyle] = useState<RenderStyle>('surface');
+
+  const frameSizes = FRAME_SIZES.filter(size => size <= Math.max(8, signal.length));
+  const frameSize = Math.min(settings.frameSize, frameSizes[frameSizes.length - 1]);
+  const hop = Math.min(settings.hop, frameSize);
+
+  const spectrogram = useMemo(
+    () => computeStft(signal, { ...settings, frameSize, hop }, sampleRate),
+    [signal, settings, frameSize, hop, sampleRate]
+  );
+
+  const duration = signal.length / sampleRate;
+  const nyquist = sampleRate / 2;
+
+  return (
+    <div className="w-full h-full min-h-[400px] relative cursor-move bg-slate-950 flex flex-col">
+      <div className="flex-1 relative">
+        <Canvas camera={{ position: [14, 12, 18], fov: 40 }} gl={{ antialias: true }}>
+          <ambientLight intensity={1.2} />
+          <pointLight position={[10, 15, 10]} intensity={2} />
+
+          {renderStyle === 'surface'
+            ? <SurfaceMesh spectrogram={spectrogram} useDb={useDb} />
+            : <WaterfallLines spectrogram={spectrogram} useDb={useDb} />}
+
+          {/* Axes */}
+          <SafeLine points={[new THREE.Vector3(-timeScale / 2, 0, -0.3), new THREE.Vector3(timeScale / 2, 0, -0.3)]} color="#64748b" lineWidth={1.5} />
+          <SafeLine points={[new THREE.Vector3(-timeScale / 2 - 0.3, 0, 0), new THREE.Vector3(-timeScale / 2 - 0.3, 0, maxZ)]} color="#ef4444" lineWidth={1.5} />
+          <Label position={[0, -0.8, -1]} text="TIME" color="#64748b" bold />
+          <Label position={[-timeScale / 2, -0.5, -1]} text="0s" color="#94a3b8" />
+          <Label position={[timeScale / 2, -0.5, -1]} text={formatTime(duration)} color="#94a3b8" />
+          <Label position={[-timeScale / 2 - 2.5, 0, maxZ / 2]} text="FREQUENCY" color="#f43f5e" bold />
+          {[0, 0.5, 1].map(perc => (
+            <Label key={perc} position={[-timeScale / 2 - 1.2, 0, perc * maxZ]} text={formatFrequency(perc * nyquist)} color="#94a3b8" />
+          ))}
+
+          <gridHelper args={[20, 20, 0x334155, 0x1e293b]} position={[0, -0.01, maxZ / 2]} />
+          <OrbitControls makeDefault minDistance={5} maxDistance={40} target={[0, 1, maxZ / 2]} />
+        </Canvas>
+      </div>
+
+      <div className="absolute top-4 left-4 flex flex-col gap-2">
+        <div className="bg-slate-900/95 backdrop-blur-md p-4 rounded-xl border border-slate-700/50 text-[10px] text-slate-300 shadow-2xl space-y-3 w-64">
+          <p className="font-bold text-blue-400 uppercase tracking-wider text-xs border-b border-slate-800 pb-2">STFT SPECTROGRAM</p>
+
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-slate-400 uppercase">Frame</span>
+            <select
+              value={frameSize}
+              onChange={(e) => setSettings({ ...settings, frameSize: Number(e.target.value) })}
+              className="bg-slate-950 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+            >
+              {frameSizes.map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-bold text-slate-400 uppercase">Hop</span>
+              <span className="font-mono text-blue-400">{hop} ({Math.round((1 - hop / frameSize) * 100)}% overlap)</span>
+            </div>
+            <input
+              type="range"
+              min={1}
+              max={frameSize}
+              value={hop}
+              onChange={(e) => setSettings({ ...settings, hop: Number(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-slate-400 uppercase">Window</span>
+            <select
+              value={settings.window.type}
+              onChange={(e) => setSettings({ ...settings, window: { ...settings.window, type: e.target.value as WindowType } })}
+              className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200"
+            >
+              {Object.values(WindowType).map(type => <option key={type} value={type}>{WINDOW_LABELS[type]}</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-1 bg-slate-950 p-1 rounded-lg">
+            {(['surface', 'waterfall'] as RenderStyle[]).map(style => (
+              <button
+                key={style}
+                onClick={() => setRenderStyle(style)}
+                className={`py-1 rounded-md font-bold uppercase transition-all ${renderStyle === style ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                {style}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center space-x-2 font-bold uppercase text-slate-400">
+            <input type="checkbox" checked={useDb} onChange={(e) => setUseDb(e.target.checked)} className="accent-blue-500" />
+            <span>dB scale ({DB_RANGE} dB range)</span>
+          </label>
+
+          <div className="border-t border-slate-800 pt-2 font-mono text-slate-500 space-y-0.5">
+            <p>{spectrogram.frames.length} frames · Δt {formatTime((hop / sampleRate), 3)}</p>
+            <p>Δf {formatFrequency(spectrogram.binWidth, 3)}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Spectrogram3D;
@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FrequencyComponent, SpectrumScale } from '../types';
+import { formatSpectrumValue } from '../services/spectrum';
+import { formatFrequency } from '../services/units';
+
+interface SpectrumBarsProps {
+  components: FrequencyComponent[];
+  heights: number[]; // 0..1, one per component
+  values: number[]; // Scaled values for the tooltip
+  scale: SpectrumScale;
+  padFactor: number; // Bins that aren't multiples of it were added by zero-padding
+  activeBins: Set<number> | null; // Null when every bin is active
+  selectable: boolean; // Original bins toggle on click
+  onToggle: (bin: number) => void; // Called with the unpadded bin index
+}
+
+const POSITIVE_COLORS = ['#2563eb', '#22d3ee'];
+const NEGATIVE_COLORS = ['#c026d3', '#f472b6'];
+const DISABLED_COLOR = '#334155';
+
+/**
+ * Sidebar bar chart on a canvas. When there are more bins than pixel columns,
+ * each column shows the largest bin it covers, so a 16× padded N=8192
+ * spectrum costs as much to draw as a small one.
+ */
+const SpectrumBars: React.FC<SpectrumBarsProps> = ({ components, heights, values, scale, padFactor, activeBins, selectable, onToggle }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0, dpr: 1 });
+  const [hover, setHover] = useState<{ index: number; x: number } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const measure = () => setSize({ width: canvas.clientWidth, height: canvas.clientHeight, dpr: window.devicePixelRatio || 1 });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const pixelWidth = Math.round(size.width * size.dpr);
+
+  // One bar per bin, or per pixel column when bins outnumber pixels: [first component, largest component]
+  const columns = useMemo(() => {
+    const count = components.length;
+    if (count === 0 || pixelWidth === 0) return [];
+    const columnCount = Math.min(count, pixelWidth);
+    return Array.from({ length: columnCount }, (_, col) => {
+      const start = Math.floor((col * count) / columnCount);
+      const end = Math.max(start + 1, Math.floor(((col + 1) * count) / columnCount));
+      let largest = start;
+      for (let i = start + 1; i < end; i++) {
+        if (heights[i] > heights[largest]) largest = i;
+      }
+      return largest;
+    });
+  }, [components.length, heights, pixelWidth]);
+
+  const isOriginal = (c: FrequencyComponent) => c.bin % padFactor === 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+    const pixelHeight = Math.round(size.height * size.dpr);
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, pixelWidth, pixelHeight);
+
+    const barWidth = pixelWidth / Math.max(1, columns.length);
+    // Separate bars only while they are wide enough to keep a gap
+    const gap = barWidth >= 4 * size.dpr ? size.dpr : 0;
+    const gradients = [POSITIVE_COLORS, NEGATIVE_COLORS].map(([bottom, top]) => {
+      const gradient = ctx.createLinearGradient(0, pixelHeight, 0, 0);
+      gradient.addColorStop(0, bottom);
+      gradient.addColorStop(1, top);
+      return gradient;
+    });
+
+    columns.forEach((index, col) => {
+      const c = components[index];
+      const original = isOriginal(c);
+      const height = Math.max(size.dpr, heights[index] * pixelHeight);
+      ctx.globalAlpha = original ? 0.85 : 0.35;
+      ctx.fillStyle = original && activeBins && !activeBins.has(c.bin)
+        ? DISABLED_COLOR
+        : gradients[c.bin < 0 ? 1 : 0];
+      ctx.fillRect(col * barWidth, pixelHeight - height, Math.max(1, barWidth - gap), height);
+    });
+    ctx.globalAlpha = 1;
+  }, [columns, components, heights, activeBins, padFactor, size, pixelWidth]);
+
+  const pick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * columns.length);
+    const index = columns[col];
+    return index === undefined ? null : { index, x: e.clientX - rect.left };
+  };
+
+  const hovered = hover ? components[hover.index] : null;
+  const hoverSelectable = selectable && !!hovered && isOriginal(hovered);
+
+  return (
+    <div className="relative h-32 w-full border-b border-slate-800 pb-1">
+      <canvas
+        ref={canvasRef}
+        className={`w-full h-full block ${hoverSelectable ? 'cursor-pointer' : ''}`}
+        onMouseMove={(e) => setHover(pick(e))}
+        onMouseLeave={() => setHover(null)}
+        onClick={(e) => {
+          const target = pick(e);
+          if (!target || !selectable) return;
+          const c = components[target.index];
+          if (isOriginal(c)) onToggle(c.bin / padFactor);
+        }}
+      />
+      {hover && hovered && (
+        <div
+          style={{ left: Math.min(Math.max(hover.x, 60), size.width - 60) }}
+          className="absolute top-0 -translate-x-1/2 -translate-y-full bg-slate-800 text-[9px] font-bold px-2 py-1 rounded-md whitespace-nowrap z-50 border border-slate-700 shadow-xl pointer-events-none"
+        >
+          {formatFrequency(hovered.frequency)}: {formatSpectrumValue(values[hover.index], scale)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpectrumBars;
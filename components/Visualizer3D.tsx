@@ -1,69 +1,132 @@
 
-import React, { useMemo } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Line, Html } from '@react-three/drei';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import * as THREE from 'three';
-import { FrequencyComponent } from '../types';
+import { CameraPose, FrequencyComponent, PhasePoint, ReconstructionStats } from '../types';
+import { formatFrequency, formatTime } from '../services/units';
+import { componentValue, componentWaveform } from '../services/fft';
+import { SafeLine, Label } from './SceneHelpers';
+import { SceneHandle, captureScenePng, exportSceneGlb } from '../services/sceneExport';
 
 interface Visualizer3DProps {
   signal: number[];
+  imagSignal?: number[] | null; // Q channel of a complex input
+  twoSided?: boolean; // Centered -fs/2..+fs/2 frequency axis
+  sampleRate: number;
   components: FrequencyComponent[];
+  padFactor?: number; // Zero-padding factor: only every padFactor-th bin is an original one
+  barHeights?: Map<number, number> | null; // Wall bar height per bin in amplitude units; defaults to the amplitude
+  comparisonHeights?: Map<number, number> | null;
+  spectrumLabel?: string;
+  phasePoints?: PhasePoint[] | null; // Drawn as a second wall behind the magnitude wall
+  phaseUnwrapped?: boolean;
+  comparisonComponents?: FrequencyComponent[] | null; // e.g. the unwindowed spectrum, drawn as ghost bars
+  reconstruction?: number[] | null;
+  activeBins?: Set<number> | null;
+  baseComponents?: FrequencyComponent[]; // Every unpadded bin; the playhead sums all of them, not just the drawn ones
+  playheadTarget?: number[] | null; // What the components sum back to when it isn't the input: the windowed signal over its coherent gain
+  reconstructionStats?: ReconstructionStats | null;
+  filteredSignal?: number[] | null; // Output of the filter designer, drawn beside the input
+  filterGains?: number[] | null; // Filter magnitude response, evenly spaced from DC to Nyquist
+  snapshotSignal?: number[] | null; // A saved snapshot, overlaid on the input for comparison
+  snapshotLabel?: string;
+  compareComponents?: FrequencyComponent[] | null; // The other A/B slot, drawn as an offset wall
+  compareHeights?: Map<number, number> | null;
+  compareSignal?: number[] | null;
+  compareLabel?: string;
+  showImages?: boolean; // Mirror the spectrum into the images the sampled signal also has beyond Nyquist
+  cameraPose?: CameraPose | null; // Applied whenever it changes, e.g. when a session is loaded
+  onCameraChange?: (pose: CameraPose) => void; // Called when the user finishes orbiting
+  onSceneReady?: (handle: SceneHandle | null) => void; // PNG/glTF export hooks, null on unmount
 }
 
-const Grid = () => (
-  <group>
-    <gridHelper args={[20, 20, 0x334155, 0x1e293b]} rotation={[Math.PI / 2, 0, 0]} position={[0, 0, 0]} />
-    <axesHelper args={[5]} />
-  </group>
-);
+interface SceneContentProps extends Visualizer3DProps {
+  playhead: number | null; // Sample under the time cursor, null when the cursor is hidden
+}
 
-const SafeLine = ({ points, color, lineWidth = 2, opacity = 1 }: { points: THREE.Vector3[], color: string, lineWidth?: number, opacity?: number }) => {
-  const validPoints = useMemo(() => {
-    return points.filter(p => isFinite(p.x) && isFinite(p.y) && isFinite(p.z));
-  }, [points]);
+// Keeps the scene responsive for large N: only the strongest components are drawn,
+// and each projection is evaluated at a bounded number of points
+const MAX_DRAWN_COMPONENTS = 128;
+const MAX_PROJECTION_POINTS = 1024;
 
-  if (validPoints.length < 2) return null;
+// The phase wall sits behind the magnitude wall; ±π (or the largest unwrapped phase) maps to ±PHASE_HEIGHT
+const PHASE_WALL_OFFSET = 6;
+// The filtered signal is drawn this far in front of the input (towards negative Z)
+const FILTERED_OFFSET = 1.5;
+const PHASE_HEIGHT = 2;
+// The playhead's running-sum stack stands just in front of the input signal
+const STACK_OFFSET = 0.3;
+// The other A/B slot's wall stands this far in front of the magnitude wall
+const COMPARE_OFFSET = 0.5;
+// One sweep of the playhead across the record takes about this long
+const PLAYHEAD_SWEEP_MS = 8000;
+const PLAYHEAD_FRAME_MS = 40;
 
-  return (
-    <Line
-      points={validPoints}
-      color={color}
-      lineWidth={lineWidth}
-      transparent={opacity < 1}
-      opacity={opacity}
-    />
-  );
+/**
+ * Hands the renderer, scene and camera to the export functions.
+ */
+const SceneExportBridge = ({ container, onReady }: { container: React.RefObject<HTMLDivElement | null>; onReady: (handle: SceneHandle | null) => void }) => {
+  const { gl, scene, camera } = useThree();
+
+  useEffect(() => {
+    onReady({
+      capturePng: (scale) => {
+        if (!container.current) return Promise.reject(new Error('3D view is not mounted'));
+        return captureScenePng(gl, scene, camera, container.current, scale);
+      },
+      exportGlb: () => exportSceneGlb(scene),
+    });
+    return () => onReady(null);
+  }, [gl, scene, camera, container, onReady]);
+
+  return null;
 };
 
-const Label = ({ position, text, color, bold = false }: { position: [number, number, number], text: string, color: string, bold?: boolean }) => (
-  <Html position={position} center distanceFactor={15}>
-    <div style={{
-      color,
-      fontSize: bold ? '12px' : '10px',
-      whiteSpace: 'nowrap',
-      fontWeight: bold ? '900' : 'bold',
-      pointerEvents: 'none',
-      background: 'rgba(2, 6, 23, 0.9)',
-      padding: '2px 8px',
-      borderRadius: '4px',
-      border: `1px solid ${color}${bold ? '88' : '44'}`,
-      textTransform: 'uppercase',
-      letterSpacing: '0.05em',
-      boxShadow: '0 4px 12px rgba(0,0,0,0.5)',
-      zIndex: bold ? 10 : 1
-    }}>
-      {text}
-    </div>
-  </Html>
+const Grid = () => (
+  <group>
+    <gridHelper args={[20, 20, 0x334155, 0x1e293b]} rotation={[Math.PI / 2, 0, 0]} position={[0, 0, 0]} />
+    <axesHelper args={[5]} />
+  </group>
 );
 
-const SceneContent = ({ signal, components }: Visualizer3DProps) => {
+const SceneContent = ({ signal, imagSignal, twoSided = false, sampleRate, components, padFactor = 1, barHeights, comparisonHeights, spectrumLabel = 'MAGNITUDE', phasePoints, phaseUnwrapped = false, comparisonComponents, reconstruction, activeBins, baseComponents, playheadTarget, filteredSignal, filterGains, snapshotSignal, snapshotLabel = 'SNAPSHOT', compareComponents, compareHeights, compareSignal, compareLabel = 'B', showImages = false, cameraPose, onCameraChange, playhead }: SceneContentProps) => {
   const timeScale = 10;
   const ampScale = 4;
   const maxZ = 12;
 
   const n = signal.length || 1;
-  const nyquist = n > 1 ? n / 2 : 1;
+  const nyquistBin = n > 1 ? n / 2 : 1;
+  const nyquistHz = sampleRate / 2;
+  const duration = n / sampleRate;
+
+  const camera = useThree(state => state.camera);
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+
+  useEffect(() => {
+    const controls = controlsRef.current;
+    if (!cameraPose || !controls) return;
+    camera.position.set(...cameraPose.position);
+    controls.target.set(...cameraPose.target);
+    controls.update();
+  }, [cameraPose, camera]);
+
+  const handleControlsEnd = useCallback(() => {
+    const controls = controlsRef.current;
+    if (!controls || !onCameraChange) return;
+    onCameraChange({
+      position: camera.position.toArray() as CameraPose['position'],
+      target: controls.target.toArray() as CameraPose['target'],
+    });
+  }, [camera, onCameraChange]);
+
+  // Depth position of a (signed) bin of the padded grid on the frequency wall
+  const binToZ = useCallback((bin: number) => {
+    const b = bin / padFactor;
+    if (twoSided) return ((b + nyquistBin) / n) * maxZ;
+    return Math.min(b / nyquistBin, 1) * maxZ;
+  }, [twoSided, padFactor, nyquistBin, n, maxZ]);
 
   const mainSignalPoints = useMemo(() => {
     if (n < 2) return [];
@@ -74,43 +137,190 @@ const SceneContent = ({ signal, components }: Visualizer3DProps) => {
     });
   }, [signal, n, timeScale, ampScale]);
 
+  const imagSignalPoints = useMemo(() => {
+    if (!imagSignal || imagSignal.length < 2) return [];
+    const len = imagSignal.length;
+    return imagSignal.map((y, i) => {
+      const x = (i / (len - 1) - 0.5) * timeScale;
+      return new THREE.Vector3(x, (y || 0) * ampScale, 0);
+    });
+  }, [imagSignal, timeScale, ampScale]);
+
+  const reconstructionPoints = useMemo(() => {
+    if (!reconstruction || reconstruction.length < 2) return [];
+    const len = reconstruction.length;
+    return reconstruction.map((y, i) => {
+      const x = (i / (len - 1) - 0.5) * timeScale;
+      const val = (y || 0) * ampScale;
+      // Nudge slightly towards the viewer so it draws over the input signal
+      return new THREE.Vector3(x, val, -0.02);
+    });
+  }, [reconstruction, timeScale, ampScale]);
+
+  // The filtered signal runs parallel to the input, just in front of the frequency axis
+  const filteredPoints = useMemo(() => {
+    if (!filteredSignal || filteredSignal.length < 2) return [];
+    const len = filteredSignal.length;
+    return filteredSignal.map((y, i) => new THREE.Vector3((i / (len - 1) - 0.5) * timeScale, (y || 0) * ampScale, -FILTERED_OFFSET));
+  }, [filteredSignal, timeScale, ampScale]);
+
+  // Unity gain is drawn at the height of a unit (or full-scale) bar; the two-sided wall mirrors the curve
+  const filterCurve = useMemo(() => {
+    if (!filterGains || filterGains.length < 2) return [];
+    const last = filterGains.length - 1;
+    const point = (gain: number, fraction: number) => new THREE.Vector3(
+      timeScale / 2 + 0.1,
+      gain * ampScale,
+      twoSided ? ((fraction + 1) / 2) * maxZ : fraction * maxZ
+    );
+    const positive = filterGains.map((g, i) => point(g, i / last));
+    if (!twoSided) return positive;
+    return [...filterGains.slice(1).reverse().map((g, i) => point(g, -(last - i) / last)), ...positive];
+  }, [filterGains, twoSided, timeScale, ampScale, maxZ]);
+
+  const snapshotPoints = useMemo(() => {
+    if (!snapshotSignal || snapshotSignal.length < 2) return [];
+    const len = snapshotSignal.length;
+    // Drawn in front of the input, on the same time axis even if the snapshot has a different N
+    return snapshotSignal.map((y, i) => new THREE.Vector3((i / (len - 1) - 0.5) * timeScale, (y || 0) * ampScale, 0.02));
+  }, [snapshotSignal, timeScale, ampScale]);
+
+  const compareSignalPoints = useMemo(() => {
+    if (!compareSignal || compareSignal.length < 2) return [];
+    const len = compareSignal.length;
+    return compareSignal.map((y, i) => new THREE.Vector3((i / (len - 1) - 0.5) * timeScale, (y || 0) * ampScale, 0.04));
+  }, [compareSignal, timeScale, ampScale]);
+
+  // The other slot may have a different N and sample rate, so its bars are placed by frequency
+  const compareWall = useMemo(() => {
+    if (!compareComponents || compareComponents.length === 0) return null;
+    const toZ = (f: number) => (twoSided ? (f / sampleRate + 0.5) * maxZ : (f / nyquistHz) * maxZ);
+    const points = compareComponents
+      .map(c => ({ z: toZ(c.frequency), height: (compareHeights?.get(c.bin) ?? c.amplitude) * ampScale }))
+      .filter(p => p.z >= 0 && p.z <= maxZ);
+    const bars = points
+      .filter(p => p.height > 0.005 * ampScale)
+      .sort((a, b) => b.height - a.height)
+      .slice(0, MAX_DRAWN_COMPONENTS);
+    const envelope = points.map(p => new THREE.Vector3(timeScale / 2 + COMPARE_OFFSET, p.height, p.z));
+    return { bars, envelope };
+  }, [compareComponents, compareHeights, twoSided, sampleRate, nyquistHz, maxZ, timeScale, ampScale]);
+
   const componentLines = useMemo(() => {
     if (!components || components.length === 0 || n < 2) return [];
 
-    // 1. Filter out noise
-    const valid = components.filter(c => c.amplitude > 0.005);
+    // 1. Filter out noise and interpolated (zero-padded) bins, keeping at most the
+    // strongest MAX_DRAWN_COMPONENTS. On a dB wall weak bars are the point, so the
+    // cut-off follows the bar height.
+    const heightOf = (c: FrequencyComponent) => barHeights?.get(c.bin) ?? c.amplitude;
+    let valid = components.filter(c => c.bin % padFactor === 0 && heightOf(c) > 0.005);
+    if (valid.length > MAX_DRAWN_COMPONENTS) {
+      valid = [...valid].sort((a, b) => b.amplitude - a.amplitude).slice(0, MAX_DRAWN_COMPONENTS);
+    }
 
     // 2. Identify top 15 strongest frequencies for labelling only
     const topFreqs = new Set(
       [...valid]
         .sort((a, b) => b.amplitude - a.amplitude)
         .slice(0, 15)
-        .map(c => c.frequency)
+        .map(c => c.bin)
     );
 
     // 3. Sort by frequency for proper display order along Z-axis
-    const sorted = [...valid].sort((a, b) => a.frequency - b.frequency);
+    const sorted = [...valid].sort((a, b) => a.bin - b.bin);
 
     return sorted.map((c) => {
-      const freqRatio = Math.min(c.frequency / nyquist, 1);
-      const zPos = freqRatio * maxZ;
+      const zPos = binToZ(c.bin);
 
-      const points = c.signal.map((y, i) => {
-        const x = (i / (n - 1) - 0.5) * timeScale;
+      const count = Math.min(n, MAX_PROJECTION_POINTS);
+      const points = componentWaveform({ ...c, bin: c.bin / padFactor }, n, count).map((y, i) => {
+        const x = ((i * n) / count / (n - 1) - 0.5) * timeScale;
         const val = (y || 0) * ampScale;
         return new THREE.Vector3(x, val, zPos);
       });
 
       return {
         points,
-        color: `hsl(${(c.frequency * 137.5) % 360}, 85%, 65%)`,
-        label: `${c.frequency}Hz`,
+        source: { ...c, bin: c.bin / padFactor },
+        color: `hsl(${(((c.bin * 137.5) % 360) + 360) % 360}, 85%, 65%)`,
+        label: formatFrequency(c.frequency),
         z: zPos,
-        amp: c.amplitude,
-        showLabel: topFreqs.has(c.frequency)
+        height: heightOf(c) * ampScale,
+        showLabel: topFreqs.has(c.bin),
+        active: !activeBins || activeBins.has(c.bin)
       };
     });
-  }, [components, n, nyquist, timeScale, ampScale, maxZ]);
+  }, [components, padFactor, barHeights, activeBins, n, binToZ, timeScale, ampScale]);
+
+  // With zero-padding, the full interpolated spectrum is traced through every bin of the padded grid
+  const paddedEnvelope = useMemo(() => {
+    if (padFactor === 1 || components.length < 2) return [];
+    const sorted = [...components].sort((a, b) => a.bin - b.bin);
+    return sorted.map(c => new THREE.Vector3(timeScale / 2, (barHeights?.get(c.bin) ?? c.amplitude) * ampScale, binToZ(c.bin)));
+  }, [components, padFactor, barHeights, binToZ, timeScale, ampScale]);
+
+  const phaseBars = useMemo(() => {
+    if (!phasePoints || phasePoints.length === 0) return [];
+    const key = phaseUnwrapped ? 'unwrapped' : 'wrapped';
+    const maxAbs = phaseUnwrapped
+      ? Math.max(Math.PI, ...phasePoints.map(p => Math.abs(p.unwrapped)))
+      : Math.PI;
+    return phasePoints.map(p => ({
+      z: binToZ(p.bin),
+      y: (p[key] / maxAbs) * PHASE_HEIGHT,
+      color: `hsl(${(((p.bin * 137.5) % 360) + 360) % 360}, 85%, 65%)`,
+    }));
+  }, [phasePoints, phaseUnwrapped, binToZ]);
+
+  const comparisonBars = useMemo(() => {
+    if (!comparisonComponents || comparisonComponents.length === 0) return [];
+    return comparisonComponents
+      .map(c => ({
+        z: binToZ(c.bin),
+        height: (comparisonHeights?.get(c.bin) ?? c.amplitude) * ampScale,
+      }))
+      .filter(bar => bar.height > 0.005 * ampScale);
+  }, [comparisonComponents, comparisonHeights, binToZ, ampScale]);
+
+  // A sampled spectrum repeats every fs: one-sided, each bar at f reappears at fs - f and fs + f
+  // (the wall spans fs/2, so in depth that is 2·maxZ - z and 2·maxZ + z); two-sided, at z ± maxZ
+  const imageBars = useMemo(() => {
+    if (!showImages) return [];
+    return componentLines.flatMap(line => {
+      const depths = twoSided ? [line.z - maxZ, line.z + maxZ] : [2 * maxZ - line.z, 2 * maxZ + line.z];
+      return depths
+        .filter(z => (twoSided ? z >= -maxZ / 2 && z <= maxZ * 1.5 : z <= maxZ * 3) && Math.abs(z - line.z) > 1e-9)
+        .map(z => ({ z, height: line.height, color: line.color }));
+    });
+  }, [showImages, componentLines, twoSided, maxZ]);
+
+  // Each drawn component's value at the playhead, stacked in frequency order into a running sum.
+  // Bins the wall culls still count: together they form one last grey segment, so Σ covers
+  // every active bin and meets the target.
+  const playheadStack = useMemo(() => {
+    if (playhead === null || n < 2) return null;
+    const x = (playhead / (n - 1) - 0.5) * timeScale;
+    let sum = 0;
+    const drawn = componentLines.filter(line => line.active);
+    const segments = drawn.map(line => {
+      const value = componentValue(line.source, n, playhead);
+      const from = sum;
+      sum += value;
+      return { value, from, to: sum, z: line.z, color: line.color };
+    });
+
+    const drawnBins = new Set(drawn.map(line => line.source.bin));
+    let rest = 0;
+    for (const c of baseComponents ?? []) {
+      if (drawnBins.has(c.bin) || (activeBins && !activeBins.has(c.bin * padFactor))) continue;
+      rest += componentValue(c, n, playhead);
+    }
+    const restSegment = baseComponents && baseComponents.length > drawn.length ? { from: sum, to: sum + rest } : null;
+    sum += rest;
+
+    const input = signal[playhead] || 0;
+    return { x, segments, restSegment, sum, input, target: playheadTarget ? playheadTarget[playhead] || 0 : input };
+  }, [playhead, n, componentLines, baseComponents, activeBins, padFactor, signal, playheadTarget, timeScale]);
 
   return (
     <>
@@ -122,6 +332,43 @@ const SceneContent = ({ signal, components }: Visualizer3DProps) => {
       <SafeLine points={mainSignalPoints} color="#3b82f6" lineWidth={5} />
       <Label position={[-timeScale / 2 - 1.5, 0, 0]} text="INPUT SIGNAL" color="#3b82f6" bold />
 
+      {/* Quadrature (Q) channel of a complex input */}
+      {imagSignalPoints.length > 0 && (
+        <>
+          <SafeLine points={imagSignalPoints} color="#e879f9" lineWidth={3} opacity={0.8} />
+          <Label position={[-timeScale / 2 - 1.5, 0.8, 0]} text="Q (IMAG)" color="#e879f9" bold />
+        </>
+      )}
+
+      {/* Reconstruction from the selected components, overlaid on the input */}
+      {reconstructionPoints.length > 0 && (
+        <>
+          <SafeLine points={reconstructionPoints} color="#f59e0b" lineWidth={3} />
+          <Label position={[-timeScale / 2 - 1.5, -0.8, 0]} text="RECONSTRUCTION" color="#f59e0b" bold />
+        </>
+      )}
+
+      {filteredPoints.length > 0 && (
+        <>
+          <SafeLine points={filteredPoints} color="#a3e635" lineWidth={3} />
+          <Label position={[-timeScale / 2 - 1.5, -0.8, -FILTERED_OFFSET]} text="FILTERED" color="#a3e635" bold />
+        </>
+      )}
+
+      {snapshotPoints.length > 0 && (
+        <>
+          <SafeLine points={snapshotPoints} color="#94a3b8" lineWidth={2} opacity={0.7} />
+          <Label position={[-timeScale / 2 - 1.5, 1.6, 0]} text={snapshotLabel.toUpperCase()} color="#94a3b8" bold />
+        </>
+      )}
+
+      {compareSignalPoints.length > 0 && (
+        <>
+          <SafeLine points={compareSignalPoints} color="#fb923c" lineWidth={2.5} opacity={0.85} />
+          <Label position={[-timeScale / 2 - 1.5, -1.6, 0]} text={`SLOT ${compareLabel}`} color="#fb923c" bold />
+        </>
+      )}
+
       {/* Magnitude Wall Background (X-Z plane at top of time domain) */}
       <mesh position={[timeScale / 2 + 0.01, 2, maxZ / 2]} rotation={[0, -Math.PI / 2, 0]}>
         <planeGeometry args={[maxZ + 2, 6]} />
@@ -132,23 +379,23 @@ const SceneContent = ({ signal, components }: Visualizer3DProps) => {
       {componentLines.map((line, i) => (
         <group key={`${line.label}-${i}`}>
           {/* Subtle Sine Wave Projection */}
-          <SafeLine points={line.points} color={line.color} lineWidth={1.2} opacity={0.4} />
+          <SafeLine points={line.points} color={line.active ? line.color : '#334155'} lineWidth={1.2} opacity={line.active ? 0.4 : 0.15} />
 
           {/* BOLD MAGNITUDE BAR - The spectral component */}
           {/* Main vertical stalk with glow-like thickness */}
           <SafeLine
             points={[
               new THREE.Vector3(timeScale / 2, 0, line.z),
-              new THREE.Vector3(timeScale / 2, line.amp * ampScale, line.z)
+              new THREE.Vector3(timeScale / 2, line.height, line.z)
             ]}
-            color={line.color}
+            color={line.active ? line.color : '#334155'}
             lineWidth={8} // Much bolder
           />
           {/* Inner core line for sharp highlight */}
           <SafeLine
             points={[
               new THREE.Vector3(timeScale / 2, 0, line.z),
-              new THREE.Vector3(timeScale / 2, line.amp * ampScale, line.z)
+              new THREE.Vector3(timeScale / 2, line.height, line.z)
             ]}
             color="#ffffff"
             lineWidth={2}
@@ -157,7 +404,7 @@ const SceneContent = ({ signal, components }: Visualizer3DProps) => {
 
           {/* Frequency Labels */}
           {line.showLabel && (
-            <Label position={[timeScale / 2 + 1.2, line.amp * ampScale + 0.3, line.z]} text={line.label} color={line.color} bold />
+            <Label position={[timeScale / 2 + 1.2, line.height + 0.3, line.z]} text={line.label} color={line.color} bold />
           )}
 
           {/* Depth Guide Line (Connecting 0 to Wall) */}
@@ -173,33 +420,245 @@ const SceneContent = ({ signal, components }: Visualizer3DProps) => {
         </group>
       ))}
 
+      {/* Interpolated (zero-padded) spectrum; the bold bars above are the original bins */}
+      {paddedEnvelope.length > 0 && (
+        <SafeLine points={paddedEnvelope} color="#38bdf8" lineWidth={1.5} opacity={0.7} />
+      )}
+
+      {/* Filter magnitude response over the wall */}
+      {filterCurve.length > 0 && (
+        <>
+          <SafeLine points={filterCurve} color="#a3e635" lineWidth={2.5} opacity={0.9} />
+          <Label position={[timeScale / 2 + 0.1, ampScale + 0.4, twoSided ? maxZ / 2 : 0]} text="|H(f)|" color="#a3e635" bold />
+        </>
+      )}
+
+      {/* Comparison spectrum, offset slightly in front of the wall */}
+      {comparisonBars.map((bar, i) => (
+        <SafeLine
+          key={`cmp-${i}`}
+          points={[
+            new THREE.Vector3(timeScale / 2 + 0.25, 0, bar.z),
+            new THREE.Vector3(timeScale / 2 + 0.25, bar.height, bar.z)
+          ]}
+          color="#94a3b8"
+          lineWidth={3}
+          opacity={0.6}
+        />
+      ))}
+
+      {/* The other A/B slot's spectrum, offset in front of the wall */}
+      {compareWall && (
+        <group>
+          {compareWall.bars.map((bar, i) => (
+            <SafeLine
+              key={`ab-${i}`}
+              points={[
+                new THREE.Vector3(timeScale / 2 + COMPARE_OFFSET, 0, bar.z),
+                new THREE.Vector3(timeScale / 2 + COMPARE_OFFSET, bar.height, bar.z)
+              ]}
+              color="#fb923c"
+              lineWidth={4}
+              opacity={0.75}
+            />
+          ))}
+          <SafeLine points={compareWall.envelope} color="#fb923c" lineWidth={1.5} opacity={0.6} />
+          <Label position={[timeScale / 2 + COMPARE_OFFSET, ampScale + 1, maxZ]} text={`SLOT ${compareLabel}`} color="#fb923c" bold />
+        </group>
+      )}
+
+      {/* Spectral images beyond Nyquist */}
+      {imageBars.length > 0 && (
+        <group>
+          {(twoSided ? [0, maxZ] : [maxZ, 2 * maxZ]).map((z, i) => (
+            <group key={`fold-${z}`}>
+              <SafeLine
+                points={[new THREE.Vector3(timeScale / 2, 0, z), new THREE.Vector3(timeScale / 2, ampScale, z)]}
+                color="#f43f5e"
+                lineWidth={1}
+                opacity={0.6}
+              />
+              <Label
+                position={[timeScale / 2, ampScale + 0.4, z]}
+                text={twoSided ? (i === 0 ? '−fs/2' : '+fs/2') : i === 0 ? 'FOLD fs/2' : 'fs'}
+                color="#f43f5e"
+              />
+            </group>
+          ))}
+          {imageBars.map((bar, i) => (
+            <SafeLine
+              key={`image-${i}`}
+              points={[new THREE.Vector3(timeScale / 2, 0, bar.z), new THREE.Vector3(timeScale / 2, bar.height, bar.z)]}
+              color={bar.color}
+              lineWidth={4}
+              opacity={0.3}
+            />
+          ))}
+        </group>
+      )}
+
+      {/* Phase Wall */}
+      {phasePoints && (
+        <group position={[timeScale / 2 + PHASE_WALL_OFFSET, 0, 0]}>
+          <mesh position={[0.01, 0, maxZ / 2]} rotation={[0, -Math.PI / 2, 0]}>
+            <planeGeometry args={[maxZ + 2, PHASE_HEIGHT * 2 + 1]} />
+            <meshStandardMaterial color="#042f2e" transparent opacity={0.35} metalness={0.8} roughness={0.2} />
+          </mesh>
+          {[-PHASE_HEIGHT, 0, PHASE_HEIGHT].map(y => (
+            <SafeLine
+              key={y}
+              points={[new THREE.Vector3(0, y, -0.5), new THREE.Vector3(0, y, maxZ + 0.5)]}
+              color="#2dd4bf"
+              lineWidth={y === 0 ? 1.5 : 0.8}
+              opacity={y === 0 ? 0.6 : 0.3}
+            />
+          ))}
+          {phaseBars.map((bar, i) => (
+            <group key={`phase-${i}`}>
+              <SafeLine points={[new THREE.Vector3(0, 0, bar.z), new THREE.Vector3(0, bar.y, bar.z)]} color={bar.color} lineWidth={4} />
+              <mesh position={[0, bar.y, bar.z]}>
+                <sphereGeometry args={[0.08, 12, 12]} />
+                <meshStandardMaterial color={bar.color} />
+              </mesh>
+            </group>
+          ))}
+          <Label position={[0, PHASE_HEIGHT + 0.9, maxZ / 2]} text={phaseUnwrapped ? 'PHASE SPECTRUM (UNWRAPPED)' : 'PHASE SPECTRUM (WRAPPED, ±π)'} color="#2dd4bf" bold />
+        </group>
+      )}
+
+      {/* Time playhead: component values at the cursor and their running sum */}
+      {playheadStack && (
+        <group>
+          <SafeLine
+            points={[new THREE.Vector3(playheadStack.x, 0, -STACK_OFFSET), new THREE.Vector3(playheadStack.x, 0, maxZ)]}
+            color="#e2e8f0"
+            lineWidth={1.5}
+            opacity={0.5}
+          />
+          {playheadStack.segments.map((segment, i) => (
+            <group key={`playhead-${i}`}>
+              <mesh position={[playheadStack.x, segment.value * ampScale, segment.z]}>
+                <sphereGeometry args={[0.07, 10, 10]} />
+                <meshStandardMaterial color={segment.color} />
+              </mesh>
+              <SafeLine
+                points={[
+                  new THREE.Vector3(playheadStack.x, segment.from * ampScale, -STACK_OFFSET),
+                  new THREE.Vector3(playheadStack.x, segment.to * ampScale, -STACK_OFFSET)
+                ]}
+                color={segment.color}
+                lineWidth={6}
+              />
+            </group>
+          ))}
+          {playheadStack.restSegment && (
+            <SafeLine
+              points={[
+                new THREE.Vector3(playheadStack.x, playheadStack.restSegment.from * ampScale, -STACK_OFFSET),
+                new THREE.Vector3(playheadStack.x, playheadStack.restSegment.to * ampScale, -STACK_OFFSET)
+              ]}
+              color="#64748b"
+              lineWidth={6}
+            />
+          )}
+          <mesh position={[playheadStack.x, playheadStack.input * ampScale, 0]}>
+            <sphereGeometry args={[0.12, 12, 12]} />
+            <meshStandardMaterial color="#3b82f6" />
+          </mesh>
+          {playheadTarget && (
+            <mesh position={[playheadStack.x, playheadStack.target * ampScale, -STACK_OFFSET]}>
+              <sphereGeometry args={[0.14, 12, 12]} />
+              <meshStandardMaterial color="#e2e8f0" wireframe />
+            </mesh>
+          )}
+          <mesh position={[playheadStack.x, playheadStack.sum * ampScale, -STACK_OFFSET]}>
+            <sphereGeometry args={[0.1, 12, 12]} />
+            <meshStandardMaterial color="#f59e0b" />
+          </mesh>
+          <Label
+            position={[playheadStack.x, Math.max(playheadStack.sum, playheadStack.input, playheadStack.target, 0) * ampScale + 0.8, -STACK_OFFSET]}
+            text={playheadTarget
+              ? `x = ${playheadStack.input.toFixed(3)} · x·w/CG = ${playheadStack.target.toFixed(3)} · Σ = ${playheadStack.sum.toFixed(3)}`
+              : `x = ${playheadStack.input.toFixed(3)} · Σ = ${playheadStack.sum.toFixed(3)}`}
+            color="#f59e0b"
+            bold
+          />
+        </group>
+      )}
+
       {/* Axis Information */}
       <Label position={[0, -1.5, 0]} text="TIME DOMAIN" color="#64748b" bold />
+      <Label position={[-timeScale / 2, -0.8, 0]} text="0s" color="#94a3b8" />
+      <Label position={[timeScale / 2, -0.8, 0]} text={formatTime(duration * (n - 1) / n)} color="#94a3b8" />
 
       <group position={[timeScale / 2 + 4, 2.5, maxZ / 2]}>
-        <Label position={[0, 0, 0]} text="MAGNITUDE SPECTRUM (FREQUENCY DOMAIN)" color="#f43f5e" bold />
+        <Label position={[0, 0, 0]} text={`${spectrumLabel} SPECTRUM (FREQUENCY DOMAIN)`} color="#f43f5e" bold />
       </group>
 
       {/* Frequency Scale Markers */}
       {[0, 0.25, 0.5, 0.75, 1.0].map((perc) => (
         <group key={perc} position={[timeScale / 2 + 0.5, -0.4, perc * maxZ]}>
           <SafeLine points={[new THREE.Vector3(-0.3, 0, 0), new THREE.Vector3(0.3, 0, 0)]} color="#ef4444" lineWidth={2} />
-          <Label position={[1, 0, 0]} text={`${Math.round(perc * nyquist)}Hz`} color="#94a3b8" />
+          <Label position={[1, 0, 0]} text={formatFrequency(twoSided ? (perc * 2 - 1) * nyquistHz : perc * nyquistHz)} color="#94a3b8" />
         </group>
       ))}
 
       <Grid />
-      <OrbitControls makeDefault minDistance={5} maxDistance={40} target={[0, 1, maxZ / 3]} />
+      <OrbitControls ref={controlsRef} makeDefault minDistance={5} maxDistance={40} target={[0, 1, maxZ / 3]} onEnd={handleControlsEnd} />
     </>
   );
 };
 
-const Visualizer3D: React.FC<Visualizer3DProps> = ({ signal, components }) => {
+const Visualizer3D: React.FC<Visualizer3DProps> = ({ signal, imagSignal, twoSided, sampleRate, components, padFactor, barHeights, comparisonHeights, spectrumLabel, phasePoints, phaseUnwrapped, comparisonComponents, reconstruction, activeBins, baseComponents, playheadTarget, reconstructionStats, filteredSignal, filterGains, snapshotSignal, snapshotLabel, compareComponents, compareHeights, compareSignal, compareLabel, showImages, cameraPose, onCameraChange, onSceneReady }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [playheadOn, setPlayheadOn] = useState(false);
+  const [playheadSample, setPlayheadSample] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const n = signal.length;
+  const playhead = playheadOn && n >= 2 ? Math.min(playheadSample, n - 1) : null;
+
+  useEffect(() => {
+    if (!playing || n < 2) return;
+    const stride = Math.max(1, Math.round((n * PLAYHEAD_FRAME_MS) / PLAYHEAD_SWEEP_MS));
+    const timer = setInterval(() => setPlayheadSample(prev => (Math.min(prev, n - 1) + stride) % n), PLAYHEAD_FRAME_MS);
+    return () => clearInterval(timer);
+  }, [playing, n]);
+
   return (
-    <div className="w-full h-full min-h-[400px] relative cursor-move bg-slate-950 flex flex-col">
+    <div ref={containerRef} className="w-full h-full min-h-[400px] relative cursor-move bg-slate-950 flex flex-col">
       <div className="flex-1 relative">
         <Canvas shadows camera={{ position: [16, 12, 16], fov: 40 }} gl={{ antialias: true }}>
-          <SceneContent signal={signal} components={components} />
+          <SceneContent
+            signal={signal}
+            imagSignal={imagSignal}
+            twoSided={twoSided}
+            sampleRate={sampleRate}
+            components={components}
+            padFactor={padFactor}
+            barHeights={barHeights}
+            comparisonHeights={comparisonHeights}
+            spectrumLabel={spectrumLabel}
+            phasePoints={phasePoints}
+            phaseUnwrapped={phaseUnwrapped}
+            comparisonComponents={comparisonComponents}
+            reconstruction={reconstruction}
+            activeBins={activeBins}
+            baseComponents={baseComponents}
+            playheadTarget={playheadTarget}
+            filteredSignal={filteredSignal}
+            filterGains={filterGains}
+            snapshotSignal={snapshotSignal}
+            snapshotLabel={snapshotLabel}
+            compareComponents={compareComponents}
+            compareHeights={compareHeights}
+            compareSignal={compareSignal}
+            compareLabel={compareLabel}
+            showImages={showImages}
+            cameraPose={cameraPose}
+            onCameraChange={onCameraChange}
+            playhead={playhead}
+          />
+          {onSceneReady && <SceneExportBridge container={containerRef} onReady={onSceneReady} />}
         </Canvas>
       </div>
 
@@ -223,6 +682,68 @@ const Visualizer3D: React.FC<Visualizer3DProps> = ({ signal, components }) => {
                 </div>
               </div>
             </div>
+            {phasePoints && (
+              <div className="flex items-center gap-3">
+                <span className="w-4 h-1 rounded-full bg-teal-400"></span>
+                <span className="font-bold text-teal-300">Phase Spectrum (Back Wall)</span>
+              </div>
+            )}
+            {imagSignal && (
+              <div className="flex items-center gap-3">
+                <span className="w-3 h-3 rounded-full bg-fuchsia-400 shadow-[0_0_12px_rgba(232,121,249,0.8)]"></span>
+                <span className="font-bold text-fuchsia-300">Quadrature (Q) Channel</span>
+              </div>
+            )}
+            {(padFactor ?? 1) > 1 && (
+              <div className="flex items-center gap-3">
+                <span className="w-4 h-1 rounded-full bg-sky-400 opacity-70"></span>
+                <span className="font-bold text-sky-300">Zero-padded ×{padFactor} (bars = original bins)</span>
+              </div>
+            )}
+            {comparisonComponents && (
+              <div className="flex items-center gap-3">
+                <span className="w-4 h-1 rounded-full bg-slate-400 opacity-60"></span>
+                <span className="font-bold text-slate-400">Unwindowed Spectrum (Ghost Bars)</span>
+              </div>
+            )}
+            {filteredSignal && (
+              <div className="flex items-center gap-3">
+                <span className="w-4 h-1 rounded-full bg-lime-400"></span>
+                <span className="font-bold text-lime-300">Filtered Signal · Response |H(f)| on Wall</span>
+              </div>
+            )}
+            {snapshotSignal && (
+              <div className="flex items-center gap-3">
+                <span className="w-4 h-0.5 rounded-full bg-slate-400"></span>
+                <span className="font-bold text-slate-300">Snapshot: {snapshotLabel ?? 'untitled'}</span>
+              </div>
+            )}
+            {compareComponents && (
+              <div className="flex items-center gap-3">
+                <span className="w-4 h-1 rounded-full bg-orange-400"></span>
+                <span className="font-bold text-orange-300">Slot {compareLabel} · Signal and Offset Wall</span>
+              </div>
+            )}
+            {showImages && (
+              <div className="flex items-center gap-3">
+                <span className="w-4 h-1 rounded-full bg-rose-500 opacity-60"></span>
+                <span className="font-bold text-rose-300">Spectral Images Beyond Nyquist</span>
+              </div>
+            )}
+            {playhead !== null && (
+              <div className="flex items-center gap-3">
+                <span className="w-1 h-3 rounded-full bg-amber-500"></span>
+                <span className="font-bold text-amber-400">Playhead · Stacked Projections Sum to Σ{playheadTarget ? ' = x·w/CG' : ''} (grey: undrawn bins)</span>
+              </div>
+            )}
+            {reconstructionStats && (
+              <div className="flex items-center gap-3">
+                <span className="w-3 h-3 rounded-full bg-amber-500 shadow-[0_0_12px_rgba(245,158,11,0.8)]"></span>
+                <span className="font-bold text-amber-400">
+                  Reconstruction · RMS err {reconstructionStats.rmsError.toFixed(4)} · max {reconstructionStats.maxError.toFixed(3)}
+                </span>
+              </div>
+            )}
           </div>
         </div>
         <div className="bg-slate-900/80 backdrop-blur p-2 px-3 rounded-lg border border-slate-700/30 text-[10px] text-slate-500 font-bold flex items-center gap-2">
@@ -232,6 +753,42 @@ const Visualizer3D: React.FC<Visualizer3DProps> = ({ signal, components }) => {
           ROTATE TO ALIGN WITH FRONT OR SIDE VIEWS
         </div>
       </div>
+
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(560px,90%)] bg-slate-900/95 backdrop-blur-md p-3 rounded-xl border border-slate-700/50 shadow-2xl flex items-center gap-3 cursor-default">
+        <button
+          onClick={() => {
+            setPlayheadOn(!playheadOn);
+            setPlaying(false);
+          }}
+          className={`px-3 py-1 text-[10px] font-black uppercase rounded-lg border transition-all ${playheadOn ? 'bg-amber-600 border-amber-400 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600'}`}
+        >
+          Playhead
+        </button>
+        {playhead !== null && (
+          <>
+            <button
+              onClick={() => setPlaying(!playing)}
+              className="px-3 py-1 text-[10px] font-black uppercase rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-all"
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={n - 1}
+              value={playhead}
+              onChange={(e) => {
+                setPlaying(false);
+                setPlayheadSample(Number(e.target.value));
+              }}
+              className="flex-1 accent-amber-500"
+            />
+            <span className="text-[10px] font-mono text-amber-400 whitespace-nowrap">
+              n = {playhead} · {formatTime(playhead / sampleRate)}
+            </span>
+          </>
+        )}
+      </div>
     </div>
   );
 };
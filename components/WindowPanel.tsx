@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { WindowSettings, WindowType } from '../types';
+import { WINDOW_LABELS } from '../services/window';
+
+interface WindowPanelProps {
+  settings: WindowSettings;
+  onSettingsChange: (settings: WindowSettings) => void;
+  signal: number[];
+  windowedSignal: number[];
+  windowShape: number[];
+  gain: number;
+  showComparison: boolean;
+  onShowComparisonChange: (show: boolean) => void;
+}
+
+const PLOT_WIDTH = 300;
+const PLOT_HEIGHT = 80;
+
+const toPolyline = (values: number[], scale: number) => {
+  if (values.length < 2) return '';
+  return values
+    .map((v, i) => {
+      const x = (i / (values.length - 1)) * PLOT_WIDTH;
+      const y = PLOT_HEIGHT / 2 - (v / scale) * (PLOT_HEIGHT / 2 - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+};
+
+const WindowPanel: React.FC<WindowPanelProps> = ({
+  settings,
+  onSettingsChange,
+  signal,
+  windowedSignal,
+  windowShape,
+  gain,
+  showComparison,
+  onShowComparisonChange,
+}) => {
+  const scale = useMemo(() => {
+    const peak = signal.reduce((m, v) => Math.max(m, Math.abs(v)), 0);
+    return peak > 0 ? peak : 1;
+  }, [signal]);
+
+  const isRectangular = settings.type === WindowType.RECTANGULAR;
+
+  return (
+    <div className="bg-slate-950/50 rounded-2xl p-4 border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <select
+          value={settings.type}
+          onChange={(e) => onSettingsChange({ ...settings, type: e.target.value as WindowType })}
+          className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-200 focus:outline-none focus:ring-2 focus:ring-violet-500"
+        >
+          {Object.values(WindowType).map(type => (
+            <option key={type} value={type}>{WINDOW_LABELS[type]}</option>
+          ))}
+        </select>
+        <span className="text-[10px] font-mono font-bold text-violet-400 bg-violet-400/10 px-2 py-0.5 rounded">
+          CG {gain.toFixed(3)}
+        </span>
+      </div>
+
+      {settings.type === WindowType.KAISER && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400 font-medium">Kaiser β</span>
+            <span className="text-xs font-mono font-bold text-violet-400">{settings.kaiserBeta.toFixed(1)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={20}
+            step={0.5}
+            value={settings.kaiserBeta}
+            onChange={(e) => onSettingsChange({ ...settings, kaiserBeta: Number(e.target.value) })}
+            className="w-full accent-violet-500"
+          />
+        </div>
+      )}
+
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-20 bg-slate-900 rounded-lg border border-slate-800">
+        <line x1={0} y1={PLOT_HEIGHT / 2} x2={PLOT_WIDTH} y2={PLOT_HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" />
+        <polyline points={toPolyline(signal, scale)} fill="none" stroke="#3b82f6" strokeOpacity={0.3} strokeWidth={1} />
+        <polyline points={toPolyline(windowShape.map(w => w * scale), scale)} fill="none" stroke="#a78bfa" strokeOpacity={0.5} strokeDasharray="3 3" strokeWidth={1} />
+        <polyline points={toPolyline(windowedSignal, scale)} fill="none" stroke="#a78bfa" strokeWidth={1.5} />
+      </svg>
+
+      <label className={`flex items-center space-x-2 text-[10px] font-bold uppercase ${isRectangular ? 'text-slate-600' : 'text-slate-400'}`}>
+        <input
+          type="checkbox"
+          checked={showComparison}
+          disabled={isRectangular}
+          onChange={(e) => onShowComparisonChange(e.target.checked)}
+          className="accent-violet-500"
+        />
+        <span>Overlay unwindowed spectrum in 3D</span>
+      </label>
+    </div>
+  );
+};
+
+export default WindowPanel;
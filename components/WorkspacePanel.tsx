@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Session, Workspace } from '../types';
+import { createShareUrl, decodeSession, sessionPayloadFromHash } from '../services/session';
+import {
+  deleteWorkspace,
+  downloadWorkspaces,
+  loadWorkspaces,
+  parseWorkspaceFile,
+  putWorkspaces,
+  saveWorkspace,
+} from '../services/workspaces';
+
+interface WorkspacePanelProps {
+  getSession: () => Session;
+  onLoad: (session: Session) => void;
+}
+
+type Status = { kind: 'info' | 'error'; text: string } | null;
+
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ getSession, onLoad }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => loadWorkspaces());
+  const [name, setName] = useState('');
+  const [shareUrl, setShareUrl] = useState('');
+  const [status, setStatus] = useState<Status>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the latest callback without re-subscribing the hash listener
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  // Restore a session from the URL fragment on startup and whenever the fragment changes
+  useEffect(() => {
+    const restoreFromHash = () => {
+      const payload = sessionPayloadFromHash(window.location.hash);
+      if (!payload) return;
+      decodeSession(payload)
+        .then(session => {
+          onLoadRef.current(session);
+          setStatus({ kind: 'info', text: 'Session restored from link' });
+        })
+        .catch(err => setStatus({ kind: 'error', text: `Could not open link: ${err instanceof Error ? err.message : String(err)}` }));
+    };
+    restoreFromHash();
+    window.addEventListener('hashchange', restoreFromHash);
+    return () => window.removeEventListener('hashchange', restoreFromHash);
+  }, []);
+
+  const handleShare = async () => {
+    let url: string;
+    try {
+      url = await createShareUrl(getSession());
+    } catch (err) {
+      setShareUrl('');
+      setStatus({ kind: 'error', text: `Could not create link: ${err instanceof Error ? err.message : String(err)}` });
+      return;
+    }
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus({ kind: 'info', text: `Link copied (${url.length} characters)` });
+    } catch {
+      // Clipboard access can be refused; the link is still shown for manual copying
+      setStatus({ kind: 'info', text: 'Copy the link below' });
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      setWorkspaces(saveWorkspace(trimmed, getSession()));
+      setStatus({ kind: 'info', text: `Saved "${trimmed}"` });
+    } catch (err) {
+      setStatus({ kind: 'error', text: `Could not save: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  const handleLoad = (workspace: Workspace) => {
+    onLoad(workspace.session);
+    setName(workspace.name);
+    setStatus({ kind: 'info', text: `Loaded "${workspace.name}"` });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseWorkspaceFile(await file.text(), file.name);
+      setWorkspaces(putWorkspaces(imported));
+      setStatus({ kind: 'info', text: `Imported ${imported.length} workspace${imported.length === 1 ? '' : 's'}` });
+    } catch (err) {
+      setStatus({ kind: 'error', text: `Import failed: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  return (
+    <div className="bg-slate-950/50 rounded-2xl p-4 border border-slate-800 space-y-3">
+      <button
+        onClick={handleShare}
+        className="w-full py-2 text-[10px] font-black uppercase rounded-lg border bg-blue-600 border-blue-500 text-white hover:bg-blue-500 transition-all"
+      >
+        Copy Share Link
+      </button>
+      {shareUrl && (
+        <input
+          readOnly
+          value={shareUrl}
+          onFocus={(e) => e.target.select()}
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 font-mono text-[10px] text-slate-400"
+        />
+      )}
+
+      <div className="flex space-x-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Workspace name"
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 text-[10px] font-black uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all disabled:opacity-40"
+        >
+          Save
+        </button>
+      </div>
+
+      {workspaces.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+          {workspaces.map(workspace => (
+            <li key={workspace.name} className="flex items-center justify-between bg-slate-900 rounded-lg px-2 py-1.5 text-xs">
+              <button onClick={() => handleLoad(workspace)} className="flex-1 min-w-0 text-left truncate text-slate-300 hover:text-blue-300" title={`Saved ${new Date(workspace.savedAt).toLocaleString()}`}>
+                {workspace.name}
+              </button>
+              <span className="flex items-center space-x-2 text-[10px] font-bold uppercase">
+                <button onClick={() => downloadWorkspaces([workspace], `${workspace.name}.json`)} className="text-slate-500 hover:text-slate-200">Export</button>
+                <button onClick={() => setWorkspaces(deleteWorkspace(workspace.name))} className="text-slate-500 hover:text-rose-400">Delete</button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="py-2 text-[10px] font-black uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all"
+        >
+          Import JSON
+        </button>
+        <button
+          onClick={() => downloadWorkspaces(workspaces, 'fft-explorer-workspaces.json')}
+          disabled={workspaces.length === 0}
+          className="py-2 text-[10px] font-black uppercase rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 transition-all disabled:opacity-40"
+        >
+          Export All
+        </button>
+      </div>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+
+      {status && (
+        <p className={`text-[10px] font-bold ${status.kind === 'error' ? 'text-rose-400' : 'text-slate-500'}`}>{status.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default WorkspacePanel;
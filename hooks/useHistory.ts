@@ -0,0 +1,94 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+const MAX_STEPS = 100;
+// Changes closer together than this (typing, a resample right after a size change) share one step
+const MERGE_MS = 800;
+
+export interface History<T> {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  beginGesture: () => void; // Until endGesture, all changes merge into a single step
+  endGesture: () => void;
+  reset: (baseline: T) => void; // Forget all steps; `baseline` is about to become current and is not an edit
+}
+
+/**
+ * Undo/redo for a value that changes through many code paths. Rather than
+ * being told about every edit, the hook watches `current` and records the
+ * previous value whenever it changes. `restore` must bring the app back to a
+ * recorded value; changes that merely reproduce it (e.g. regenerated signals)
+ * are recognised by `isSame` and don't start a new step.
+ */
+export function useHistory<T>(
+  current: T,
+  restore: (state: T) => void,
+  isSame: (a: T, b: T) => boolean,
+  isMergeable: (previous: T, next: T) => boolean
+): History<T> {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const committed = useRef(current); // The value undo steps away from
+  const lastChange = useRef(0);
+  const gesture = useRef<'idle' | 'open' | 'recorded'>('idle');
+  const [, setRevision] = useState(0);
+
+  useEffect(() => {
+    const previous = committed.current;
+    if (isSame(previous, current)) return;
+    committed.current = current;
+
+    const now = Date.now();
+    const merge = gesture.current === 'recorded'
+      || (gesture.current === 'idle' && now - lastChange.current < MERGE_MS && isMergeable(previous, current));
+    lastChange.current = now;
+    if (gesture.current === 'open') gesture.current = 'recorded';
+    if (merge) return;
+
+    past.current = [...past.current.slice(-(MAX_STEPS - 1)), previous];
+    future.current = [];
+    setRevision(r => r + 1);
+  }, [current, isSame, isMergeable]);
+
+  const step = useCallback((from: RefObject<T[]>, to: RefObject<T[]>) => {
+    const target = from.current[from.current.length - 1];
+    if (target === undefined) return;
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, committed.current];
+    committed.current = target;
+    lastChange.current = 0;
+    restore(target);
+    setRevision(r => r + 1);
+  }, [restore]);
+
+  const undo = useCallback(() => step(past, future), [step]);
+  const redo = useCallback(() => step(future, past), [step]);
+
+  const beginGesture = useCallback(() => {
+    gesture.current = 'open';
+  }, []);
+  const endGesture = useCallback(() => {
+    gesture.current = 'idle';
+    lastChange.current = 0;
+  }, []);
+
+  const reset = useCallback((baseline: T) => {
+    past.current = [];
+    future.current = [];
+    committed.current = baseline;
+    gesture.current = 'idle';
+    lastChange.current = 0;
+    setRevision(r => r + 1);
+  }, []);
+
+  return {
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+    undo,
+    redo,
+    beginGesture,
+    endGesture,
+    reset,
+  };
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import { Complex } from '../types';
+import { AnalysisClient, createAnalysisClient } from '../services/analysisClient';
+
+/**
+ * FFT of `input` (plus `imag` for complex signals), computed off the main thread.
+ * Keeps returning the previous spectrum until the new one arrives; `pending` is true in between.
+ * `params` is the value passed alongside the input that produced the spectrum, so callers
+ * can tell a stale result from a current one. Pass a memoized object: a new one re-runs the transform.
+ * If the transform fails, the spectrum is cleared and `error` says why.
+ */
+export function useSpectrum<P = null>(
+  input: number[],
+  imag: number[] | null = null,
+  params: P | null = null
+): { spectrum: Complex[]; params: P | null; pending: boolean; error: string | null } {
+  const clientRef = useRef<AnalysisClient | null>(null);
+  const [result, setResult] = useState<{ spectrum: Complex[]; params: P | null }>({ spectrum: [], params: null });
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const client = createAnalysisClient();
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+    if (!input || input.length < 2) {
+      setResult({ spectrum: [], params });
+      setPending(false);
+      setError(null);
+      return;
+    }
+
+    let active = true;
+    setPending(true);
+    client.transform(input, imag).then(spectrum => {
+      // null means a newer request superseded this one; its own effect will settle
+      if (!active || !spectrum) return;
+      setResult({ spectrum, params });
+      setPending(false);
+      setError(null);
+    }, (err: Error) => {
+      if (!active) return;
+      setResult({ spectrum: [], params });
+      setPending(false);
+      setError(err.message);
+    });
+    return () => {
+      active = false;
+    };
+  }, [input, imag, params]);
+
+  return { ...result, pending, error };
+}
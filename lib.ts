@@ -0,0 +1,21 @@
+/**
+ * Library entry: the analysis core without React, for scripts and pipelines.
+ * Everything here is the code the app itself runs, so results match the UI.
+ * Built by `npm run build:lib` into dist-lib/.
+ */
+
+export { WindowType, SpectrumScale } from './types';
+export type { Complex, FrequencyComponent, WindowSettings, SpectrumScaleSettings, WavData } from './types';
+
+export { fftInPlace, ifftInPlace, isPowerOfTwo, nextPowerOfTwo } from './services/fftCore';
+export { fft, fftComplex, ifft, zeroPad, getFrequencyComponents, getTwoSidedComponents, reconstructSignal } from './services/fft';
+export { WINDOW_LABELS, createWindow, applyWindow, coherentGain, equivalentNoiseBandwidth } from './services/window';
+export { SPECTRUM_SCALE_LABELS, scaleSpectrum, componentPower, spectrumPeak, normalizeSpectrum } from './services/spectrum';
+export type { SpectrumContext } from './services/spectrum';
+export { DEFAULT_PEAK_FLOOR_DB, analyzeSignal, extractComponents, findPeaks } from './services/analysis';
+export type { AnalysisOptions, SpectrumAnalysis, SpectrumPeak } from './services/analysis';
+export { spectrumToCsv, spectrumToJson, peaksToCsv, signalToCsv, signalToJson } from './services/dataExport';
+export type { SpectrumExport, SignalExport } from './services/dataExport';
+export { parseSignalCsv } from './services/dataImport';
+export type { SignalCsvOptions, SignalImport } from './services/dataImport';
+export { parseWav, encodeWav } from './services/wav';
@@ -0,0 +1,104 @@
+import { Complex, FrequencyComponent, SpectrumScaleSettings, WindowSettings } from '../types';
+import { fftComplex, getFrequencyComponents, getTwoSidedComponents, zeroPad } from './fft';
+import { applyWindow, coherentGain, createWindow, equivalentNoiseBandwidth } from './window';
+import { scaleSpectrum } from './spectrum';
+
+/**
+ * The chain behind the sidebar spectrum and the 3D wall: window, zero-pad,
+ * transform, extract components, scale. The app runs the transform on a
+ * worker and memoizes each step; the library and CLI run it in one call.
+ */
+
+export interface AnalysisOptions {
+  sampleRate: number;
+  window: WindowSettings;
+  padFactor: number; // The FFT runs over padFactor × N points
+  twoSided: boolean; // Complex input is always analyzed two-sided, as in the app
+  scale: SpectrumScaleSettings;
+}
+
+export interface SpectrumAnalysis {
+  components: FrequencyComponent[];
+  values: number[]; // One value per component in the requested scale
+  fftData: Complex[]; // Unscaled transform of the windowed, padded signal
+  n: number;
+  fftLength: number;
+  padFactor: number;
+  sampleRate: number;
+  twoSided: boolean;
+  windowGain: number;
+  noiseBandwidth: number;
+}
+
+export interface SpectrumPeak {
+  bin: number;
+  frequency: number;
+  amplitude: number;
+  value: number; // In the analysis scale
+}
+
+// Local maxima further than this below the largest component are not peaks
+export const DEFAULT_PEAK_FLOOR_DB = -60;
+
+/**
+ * One-sided (DC..Nyquist) or two-sided (−fs/2..fs/2) components of a
+ * transform of `n` samples, amplitudes corrected by the window's coherent gain.
+ */
+export function extractComponents(fftData: Complex[], n: number, windowGain: number, sampleRate: number, twoSided: boolean): FrequencyComponent[] {
+  if (fftData.length === 0) return [];
+  return twoSided
+    ? getTwoSidedComponents(fftData, windowGain, sampleRate, n)
+    : getFrequencyComponents(fftData, n, windowGain, sampleRate);
+}
+
+export function analyzeSignal(signal: number[], imagSignal: number[] | null, options: AnalysisOptions): SpectrumAnalysis {
+  const n = signal.length;
+  const shape = createWindow(options.window, n);
+  const windowGain = coherentGain(shape);
+  const noiseBandwidth = equivalentNoiseBandwidth(shape);
+  const padFactor = Math.max(1, Math.round(options.padFactor));
+  const fftLength = n * padFactor;
+  const twoSided = options.twoSided || !!imagSignal;
+
+  const re = zeroPad(applyWindow(signal, shape), fftLength);
+  const im = imagSignal ? zeroPad(applyWindow(imagSignal, shape), fftLength) : new Array(fftLength).fill(0);
+  const fftData = n > 0 ? fftComplex(re, im) : [];
+  const components = extractComponents(fftData, n, windowGain, options.sampleRate, twoSided);
+  const values = scaleSpectrum(components, options.scale, { n, fftLength, sampleRate: options.sampleRate, twoSided, noiseBandwidth });
+
+  return { components, values, fftData, n, fftLength, padFactor, sampleRate: options.sampleRate, twoSided, windowGain, noiseBandwidth };
+}
+
+/**
+ * Spectral peaks, largest first. Peaks are local maxima among the original
+ * bins (every padFactor-th), where a window's sidelobes don't form maxima of
+ * their own; a plateau counts once, at its first bin. Each peak is then moved
+ * to the largest padded bin within one original bin, which refines its frequency.
+ */
+export function findPeaks(
+  analysis: Pick<SpectrumAnalysis, 'components' | 'values' | 'padFactor'>,
+  maxPeaks: number,
+  floorDb = DEFAULT_PEAK_FLOOR_DB
+): SpectrumPeak[] {
+  const { components, values, padFactor } = analysis;
+  const original = components.map((c, i) => i).filter(i => components[i].bin % padFactor === 0);
+  const largest = original.reduce((m, i) => Math.max(m, components[i].amplitude), 0);
+  if (largest === 0) return [];
+  const threshold = largest * 10 ** (floorDb / 20);
+
+  const peaks: SpectrumPeak[] = [];
+  original.forEach((index, k) => {
+    const amplitude = components[index].amplitude;
+    const left = k > 0 ? components[original[k - 1]].amplitude : -Infinity;
+    const right = k < original.length - 1 ? components[original[k + 1]].amplitude : -Infinity;
+    if (amplitude < threshold || amplitude <= left || amplitude < right) return;
+
+    let best = index;
+    for (let i = Math.max(0, index - padFactor + 1); i < Math.min(components.length, index + padFactor); i++) {
+      if (components[i].amplitude > components[best].amplitude) best = i;
+    }
+    const c = components[best];
+    peaks.push({ bin: c.bin, frequency: c.frequency, amplitude: c.amplitude, value: values[best] });
+  });
+  return peaks.sort((a, b) => b.amplitude - a.amplitude).slice(0, maxPeaks);
+}
@@ -0,0 +1,135 @@
+import { Complex } from '../types';
+import { fftInPlace } from './fftCore';
+
+export interface AnalysisRequest {
+  id: number;
+  re: Float64Array;
+  im?: Float64Array; // Omitted for real input
+}
+
+export interface AnalysisResponse {
+  id: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export interface AnalysisClient {
+  /**
+   * Resolves with the spectrum, or null if a newer request superseded this one.
+   * Rejects if the transform itself fails.
+   */
+  transform: (input: ArrayLike<number>, imag?: ArrayLike<number> | null) => Promise<Complex[] | null>;
+  dispose: () => void;
+}
+
+interface PendingRequest {
+  id: number;
+  input: ArrayLike<number>;
+  imag: ArrayLike<number> | null;
+  resolve: (result: Complex[] | null) => void;
+  reject: (error: Error) => void;
+}
+
+const toComplex = (re: Float64Array, im: Float64Array): Complex[] => {
+  const out: Complex[] = new Array(re.length);
+  for (let i = 0; i < re.length; i++) out[i] = { re: re[i], im: im[i] };
+  return out;
+};
+
+const transformOnMainThread = (input: ArrayLike<number>, imag: ArrayLike<number> | null): Complex[] => {
+  const re = Float64Array.from(input);
+  const im = imag ? Float64Array.from(imag) : new Float64Array(re.length);
+  fftInPlace(re, im);
+  return toComplex(re, im);
+};
+
+const runOnMainThread = (request: PendingRequest) => {
+  try {
+    request.resolve(transformOnMainThread(request.input, request.imag));
+  } catch (err) {
+    request.reject(err instanceof Error ? err : new Error(String(err)));
+  }
+};
+
+/**
+ * Runs FFTs on a Web Worker. At most one request is in flight; while it runs,
+ * only the most recent follow-up is kept, so a burst of brush strokes collapses
+ * into a single transform of the latest signal.
+ * Falls back to the main thread where workers are unavailable, and for good
+ * once the worker fails.
+ */
+export function createAnalysisClient(): AnalysisClient {
+  if (typeof Worker === 'undefined') {
+    return {
+      transform: async (input, imag) => transformOnMainThread(input, imag ?? null),
+      dispose: () => {},
+    };
+  }
+
+  const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  let nextId = 0;
+  let inFlight: PendingRequest | null = null;
+  let queued: PendingRequest | null = null;
+  let failed = false;
+
+  const send = (request: PendingRequest) => {
+    inFlight = request;
+    const re = Float64Array.from(request.input);
+    if (request.imag) {
+      const im = Float64Array.from(request.imag);
+      const message: AnalysisRequest = { id: request.id, re, im };
+      worker.postMessage(message, [re.buffer, im.buffer]);
+    } else {
+      const message: AnalysisRequest = { id: request.id, re };
+      worker.postMessage(message, [re.buffer]);
+    }
+  };
+
+  worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+    const { id, re, im } = event.data;
+    const finished = inFlight;
+    inFlight = null;
+    if (finished && finished.id === id) {
+      // A queued request means this result is already stale
+      finished.resolve(queued ? null : toComplex(re, im));
+    }
+    if (queued) {
+      const next = queued;
+      queued = null;
+      send(next);
+    }
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    failed = true;
+    worker.terminate();
+    // Only the latest request still matters; the in-flight one is stale if another is queued
+    const latest = queued ?? inFlight;
+    if (queued) inFlight?.resolve(null);
+    inFlight = null;
+    queued = null;
+    if (latest) runOnMainThread(latest);
+  };
+
+  return {
+    transform: (input, imag) => new Promise((resolve, reject) => {
+      const request: PendingRequest = { id: nextId++, input, imag: imag ?? null, resolve, reject };
+      if (failed) {
+        runOnMainThread(request);
+      } else if (inFlight) {
+        queued?.resolve(null);
+        queued = request;
+      } else {
+        send(request);
+      }
+    }),
+    dispose: () => {
+      inFlight?.resolve(null);
+      queued?.resolve(null);
+      inFlight = null;
+      queued = null;
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,17 @@
+/// <reference lib="webworker" />
+import { fftInPlace } from './fftCore';
+import type { AnalysisRequest, AnalysisResponse } from './analysisClient';
+
+/**
+ * Web Worker entry: runs the FFT on a transferred Float64Array and transfers
+ * the real/imaginary spectrum buffers back.
+ */
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const { id, re } = event.data;
+  const im = event.data.im ?? new Float64Array(re.length);
+  fftInPlace(re, im);
+  const response: AnalysisResponse = { id, re, im };
+  ctx.postMessage(response, [re.buffer, im.buffer]);
+};
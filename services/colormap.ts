@@ -0,0 +1,30 @@
+/**
+ * Perceptual color maps for height-mapped surfaces.
+ */
+
+// Sampled stops of matplotlib's viridis, evenly spaced over 0..1
+const VIRIDIS: [number, number, number][] = [
+  [0.267, 0.005, 0.329],
+  [0.283, 0.141, 0.458],
+  [0.254, 0.265, 0.530],
+  [0.207, 0.372, 0.553],
+  [0.164, 0.471, 0.558],
+  [0.128, 0.567, 0.551],
+  [0.135, 0.659, 0.518],
+  [0.267, 0.749, 0.441],
+  [0.478, 0.821, 0.318],
+  [0.741, 0.873, 0.150],
+  [0.993, 0.906, 0.144],
+];
+
+/**
+ * Maps a value in 0..1 to an RGB triple in 0..1.
+ */
+export function viridis(value: number): [number, number, number] {
+  const v = Math.min(Math.max(isFinite(value) ? value : 0, 0), 1) * (VIRIDIS.length - 1);
+  const i = Math.min(Math.floor(v), VIRIDIS.length - 2);
+  const w = v - i;
+  const a = VIRIDIS[i];
+  const b = VIRIDIS[i + 1];
+  return [a[0] + (b[0] - a[0]) * w, a[1] + (b[1] - a[1]) * w, a[2] + (b[2] - a[2]) * w];
+}
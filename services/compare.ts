@@ -0,0 +1,50 @@
+import { CompareSlot, FrequencyComponent } from '../types';
+
+/**
+ * Helpers for the A/B comparison: the two slots can differ in N, sample rate
+ * and window, so their spectra are compared on a shared frequency grid.
+ */
+
+export interface SpectrumCurve {
+  components: FrequencyComponent[]; // In ascending frequency order
+  values: number[]; // One scaled value per component
+}
+
+export interface SpectrumDifference {
+  frequencies: number[];
+  a: number[];
+  b: number[];
+  difference: number[]; // a - b, in the units of the scaled values
+}
+
+export const otherSlot = (slot: CompareSlot) => (slot === CompareSlot.A ? CompareSlot.B : CompareSlot.A);
+
+/**
+ * Linear interpolation of a scaled spectrum at a frequency inside its range.
+ */
+function valueAt(curve: SpectrumCurve, frequency: number): number {
+  const { components, values } = curve;
+  let hi = components.findIndex(c => c.frequency >= frequency);
+  if (hi === -1) hi = components.length - 1;
+  if (hi === 0) return values[0];
+  const lo = hi - 1;
+  const span = components[hi].frequency - components[lo].frequency;
+  const weight = span > 0 ? (frequency - components[lo].frequency) / span : 0;
+  return values[lo] + (values[hi] - values[lo]) * weight;
+}
+
+/**
+ * Both spectra resampled onto `points` frequencies spanning the range they
+ * share, and their difference. Null when the ranges don't overlap.
+ */
+export function spectrumDifference(a: SpectrumCurve, b: SpectrumCurve, points: number): SpectrumDifference | null {
+  if (a.components.length < 2 || b.components.length < 2) return null;
+  const low = Math.max(a.components[0].frequency, b.components[0].frequency);
+  const high = Math.min(a.components[a.components.length - 1].frequency, b.components[b.components.length - 1].frequency);
+  if (!(high > low)) return null;
+
+  const frequencies = Array.from({ length: points }, (_, i) => low + ((high - low) * i) / (points - 1));
+  const aValues = frequencies.map(f => valueAt(a, f));
+  const bValues = frequencies.map(f => valueAt(b, f));
+  return { frequencies, a: aValues, b: bValues, difference: aValues.map((v, i) => v - bValues[i]) };
+}
@@ -0,0 +1,136 @@
+import { Complex, ConvolutionOperation } from '../types';
+import { fftComplex, ifft } from './fft';
+import { nextPowerOfTwo } from './fftCore';
+
+/**
+ * Linear and circular convolution / correlation of two (possibly complex)
+ * signals, computed directly in time and through the convolution theorem.
+ */
+
+export interface ConvolutionResult {
+  linear: Complex[]; // Direct linear result, N+M-1 values
+  linearStart: number; // Lag of linear[0]: 0 for convolution, -(M-1) for correlation
+  circular: Complex[]; // Direct circular result of length fftLength
+  viaFft: Complex[]; // IFFT of the product of the length-fftLength spectra
+  fftLength: number;
+  theoremError: number; // max |viaFft - circular|: the convolution theorem, up to rounding
+  wrapError: number; // max |viaFft - linear| over the linear lags: non-zero until padding prevents wrap-around
+  spectra: { x: Complex[]; h: Complex[]; product: Complex[] };
+}
+
+export const CONVOLUTION_OPERATION_LABELS: Record<ConvolutionOperation, string> = {
+  [ConvolutionOperation.CONVOLUTION]: 'Convolution',
+  [ConvolutionOperation.CORRELATION]: 'Correlation',
+};
+
+const ZERO: Complex = { re: 0, im: 0 };
+
+const wrap = (index: number, n: number) => ((index % n) + n) % n;
+
+export const toComplex = (re: number[], im: number[] | null): Complex[] =>
+  re.map((v, i) => ({ re: v || 0, im: im?.[i] || 0 }));
+
+const mul = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+const mulConj = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re + a.im * b.im, im: a.im * b.re - a.re * b.im });
+const distance = (a: Complex, b: Complex) => Math.hypot(a.re - b.re, a.im - b.im);
+
+/**
+ * Smallest FFT length that turns circular into linear convolution.
+ */
+export const linearLength = (n: number, m: number) => Math.max(1, n + m - 1);
+
+/**
+ * Lag shown for index j of a circular correlation: the last M-1 indices hold
+ * the negative lags. Convolution indices are their own lag.
+ */
+export function circularLag(j: number, length: number, linearStart: number): number {
+  return j >= length + linearStart ? j - length : j;
+}
+
+function linearDirect(x: Complex[], h: Complex[], operation: ConvolutionOperation): Complex[] {
+  const n = x.length;
+  const m = h.length;
+  const out = Array.from({ length: linearLength(n, m) }, () => ({ ...ZERO }));
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < m; k++) {
+      if (operation === ConvolutionOperation.CONVOLUTION) {
+        const p = mul(x[i], h[k]);
+        out[i + k].re += p.re;
+        out[i + k].im += p.im;
+      } else {
+        // r[l] = Σ x[k + l]·conj(h[k]) with l = i - k, stored from lag -(M-1)
+        const p = mulConj(x[i], h[k]);
+        out[i - k + m - 1].re += p.re;
+        out[i - k + m - 1].im += p.im;
+      }
+    }
+  }
+  return out;
+}
+
+function circularDirect(x: Complex[], h: Complex[], length: number, operation: ConvolutionOperation): Complex[] {
+  const out = Array.from({ length }, () => ({ ...ZERO }));
+  for (let i = 0; i < x.length; i++) {
+    for (let k = 0; k < h.length; k++) {
+      const j = operation === ConvolutionOperation.CONVOLUTION ? wrap(i + k, length) : wrap(i - k, length);
+      const p = operation === ConvolutionOperation.CONVOLUTION ? mul(x[i], h[k]) : mulConj(x[i], h[k]);
+      out[j].re += p.re;
+      out[j].im += p.im;
+    }
+  }
+  return out;
+}
+
+const padded = (values: Complex[], length: number) => {
+  const re = new Array(length).fill(0);
+  const im = new Array(length).fill(0);
+  values.slice(0, length).forEach((c, i) => {
+    re[i] = c.re;
+    im[i] = c.im;
+  });
+  return fftComplex(re, im);
+};
+
+/**
+ * Convolves (or correlates) x with h both ways. fftLength is clamped to at
+ * least max(N, M); below N+M-1 the FFT result wraps around.
+ */
+export function computeConvolution(
+  x: Complex[],
+  h: Complex[],
+  operation: ConvolutionOperation,
+  fftLength: number
+): ConvolutionResult {
+  const n = x.length;
+  const m = h.length;
+  const length = Math.max(fftLength, n, m, 1);
+  const linearStart = operation === ConvolutionOperation.CONVOLUTION ? 0 : -(m - 1);
+
+  const linear = n > 0 && m > 0 ? linearDirect(x, h, operation) : [];
+  const circular = circularDirect(x, h, length, operation);
+
+  const spectrumX = padded(x, length);
+  const spectrumH = padded(h, length);
+  const product = spectrumX.map((c, k) =>
+    operation === ConvolutionOperation.CONVOLUTION ? mul(c, spectrumH[k]) : mulConj(c, spectrumH[k])
+  );
+  const viaFft = ifft(product);
+
+  let theoremError = 0;
+  for (let j = 0; j < length; j++) theoremError = Math.max(theoremError, distance(viaFft[j], circular[j]));
+  let wrapError = 0;
+  linear.forEach((c, i) => {
+    wrapError = Math.max(wrapError, distance(c, viaFft[wrap(i + linearStart, length)]));
+  });
+
+  return {
+    linear,
+    linearStart,
+    circular,
+    viaFft,
+    fftLength: length,
+    theoremError,
+    wrapError,
+    spectra: { x: spectrumX, h: spectrumH, product },
+  };
+}
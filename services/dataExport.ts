@@ -0,0 +1,89 @@
+import { Complex, FrequencyComponent, SpectrumScale } from '../types';
+import { SPECTRUM_SCALE_LABELS } from './spectrum';
+import { SpectrumPeak } from './analysis';
+
+/**
+ * CSV and JSON exports of the analysis. Rows are the same FrequencyComponent
+ * values the sidebar and 3D wall draw from, so exported reports match the screen.
+ */
+
+export interface SpectrumExport {
+  components: FrequencyComponent[];
+  fftData: Complex[]; // Raw (unscaled) transform the components were taken from
+  scale: SpectrumScale;
+  scaledValues: number[]; // Current display scale, one per component
+  sampleRate: number;
+  numPoints: number;
+  fftLength: number;
+  window: string;
+  peaks?: SpectrumPeak[]; // Included in the JSON when given
+}
+
+export interface SignalExport {
+  signal: number[];
+  imagSignal: number[] | null;
+  sampleRate: number;
+}
+
+// Enough digits to round-trip a double
+const formatNumber = (value: number) => (Number.isFinite(value) ? String(value) : '');
+
+const coefficient = (fftData: Complex[], bin: number): Complex => {
+  const n = fftData.length;
+  return fftData[((bin % n) + n) % n] ?? { re: 0, im: 0 };
+};
+
+const scaleColumn = (scale: SpectrumScale) => SPECTRUM_SCALE_LABELS[scale].toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/_$/, '');
+
+export function spectrumToCsv(data: SpectrumExport): string {
+  const header = ['bin', 'frequency_hz', 're', 'im', 'amplitude', 'phase_rad'];
+  if (data.scale !== SpectrumScale.AMPLITUDE) header.push(scaleColumn(data.scale));
+  const rows = data.components.map((c, i) => {
+    const { re, im } = coefficient(data.fftData, c.bin);
+    const row = [c.bin, c.frequency, re, im, c.amplitude, c.phase];
+    if (data.scale !== SpectrumScale.AMPLITUDE) row.push(data.scaledValues[i]);
+    return row.map(formatNumber).join(',');
+  });
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function spectrumToJson(data: SpectrumExport): string {
+  return JSON.stringify({
+    sampleRate: data.sampleRate,
+    numPoints: data.numPoints,
+    fftLength: data.fftLength,
+    window: data.window,
+    scale: data.scale,
+    components: data.components.map((c, i) => ({
+      ...c,
+      ...coefficient(data.fftData, c.bin),
+      value: data.scaledValues[i],
+    })),
+    ...(data.peaks && { peaks: data.peaks }),
+  }, null, 2) + '\n';
+}
+
+export function peaksToCsv(peaks: SpectrumPeak[], scale: SpectrumScale): string {
+  const header = ['rank', 'bin', 'frequency_hz', 'amplitude'];
+  if (scale !== SpectrumScale.AMPLITUDE) header.push(scaleColumn(scale));
+  const rows = peaks.map((p, i) => {
+    const row = [i + 1, p.bin, p.frequency, p.amplitude];
+    if (scale !== SpectrumScale.AMPLITUDE) row.push(p.value);
+    return row.map(formatNumber).join(',');
+  });
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function signalToCsv({ signal, imagSignal, sampleRate }: SignalExport): string {
+  const header = imagSignal ? 'index,time_s,re,im' : 'index,time_s,value';
+  const rows = signal.map((v, i) => {
+    const row = [i, i / sampleRate, v];
+    if (imagSignal) row.push(imagSignal[i] ?? 0);
+    return row.map(formatNumber).join(',');
+  });
+  return [header, ...rows].join('\n') + '\n';
+}
+
+export function signalToJson({ signal, imagSignal, sampleRate }: SignalExport): string {
+  return JSON.stringify({ sampleRate, signal, imagSignal }, null, 2) + '\n';
+}
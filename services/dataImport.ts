@@ -0,0 +1,66 @@
+/**
+ * Reads signals back from CSV: the app's own signal export (index,time_s,value
+ * or index,time_s,re,im) or bare numbers, one sample per row. Without a header,
+ * two columns are time and sample, or I and Q when `iq` is set.
+ */
+
+export interface SignalImport {
+  signal: number[];
+  imagSignal: number[] | null;
+  sampleRate: number | null; // From a time column, when there is one
+}
+
+const REAL_COLUMNS = ['value', 're', 'real', 'i', 'x'];
+const IMAG_COLUMNS = ['im', 'imag', 'q'];
+const TIME_COLUMNS = ['time_s', 'time', 't'];
+
+export interface SignalCsvOptions {
+  iq?: boolean; // Headerless two-column rows are I/Q pairs rather than time, sample
+}
+
+export function parseSignalCsv(text: string, options: SignalCsvOptions = {}): SignalImport {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: i + 1, cells: line.trim().split(/\s*[,;\t]\s*|\s+/).filter(Boolean) }))
+    .filter(row => row.cells.length > 0 && !row.cells[0].startsWith('#'));
+  if (rows.length === 0) throw new Error('CSV contains no rows');
+
+  // A first row that isn't numeric names the columns
+  let reColumn = 0;
+  let imColumn: number | null = null;
+  let timeColumn: number | null = null;
+  if (rows[0].cells.some(cell => isNaN(Number(cell)))) {
+    const names = rows.shift()!.cells.map(cell => cell.toLowerCase());
+    const find = (candidates: string[]) => {
+      const index = names.findIndex(name => candidates.includes(name));
+      return index === -1 ? null : index;
+    };
+    timeColumn = find(TIME_COLUMNS);
+    imColumn = find(IMAG_COLUMNS);
+    reColumn = find(REAL_COLUMNS) ?? names.findIndex((name, i) => name !== 'index' && i !== timeColumn && i !== imColumn);
+    if (reColumn === -1) throw new Error(`No sample column in header: ${names.join(', ')}`);
+  } else if (rows[0].cells.length >= 2 && options.iq) {
+    imColumn = 1;
+  } else if (rows[0].cells.length >= 2) {
+    timeColumn = 0;
+    reColumn = 1;
+  }
+
+  const read = (row: { line: number; cells: string[] }, column: number) => {
+    const value = Number(row.cells[column]);
+    if (row.cells[column] === undefined || isNaN(value)) {
+      throw new Error(`Line ${row.line}: expected a number in column ${column + 1}`);
+    }
+    return value;
+  };
+
+  const signal = rows.map(row => read(row, reColumn));
+  const imag = imColumn;
+  const imagSignal = imag === null ? null : rows.map(row => read(row, imag));
+  let sampleRate: number | null = null;
+  if (timeColumn !== null && rows.length > 1) {
+    const span = read(rows[rows.length - 1], timeColumn) - read(rows[0], timeColumn);
+    if (span > 0) sampleRate = (rows.length - 1) / span;
+  }
+  return { signal, imagSignal, sampleRate };
+}
@@ -0,0 +1,159 @@
+import { ControlPoint, DrawConstraints, DrawSymmetry } from '../types';
+
+/**
+ * Editing operations behind the Draw mode canvas. Positions are fractional
+ * sample indices (0..n-1); all writes go through writeSample so the periodic
+ * and symmetry constraints hold after every edit.
+ */
+
+export interface StrokePoint {
+  index: number;
+  value: number;
+}
+
+export const DRAW_SYMMETRY_LABELS: Record<DrawSymmetry, string> = {
+  [DrawSymmetry.NONE]: 'None',
+  [DrawSymmetry.EVEN]: 'Even',
+  [DrawSymmetry.ODD]: 'Odd',
+};
+
+const wrap = (index: number, n: number) => ((index % n) + n) % n;
+
+/**
+ * Sets one sample in place, together with its mirror image when a symmetry is
+ * enforced. Out-of-range indices wrap when periodic and are dropped otherwise.
+ */
+export function writeSample(target: number[], index: number, value: number, constraints: DrawConstraints): void {
+  const n = target.length;
+  if (!constraints.periodic && (index < 0 || index >= n)) return;
+  const i = wrap(index, n);
+  const mirror = wrap(n - i, n);
+  if (constraints.symmetry === DrawSymmetry.ODD) {
+    // x[0] and x[n/2] are their own mirror images, so an odd signal is zero there
+    const v = mirror === i ? 0 : value;
+    target[i] = v;
+    target[mirror] = -v;
+  } else {
+    target[i] = value;
+    if (constraints.symmetry === DrawSymmetry.EVEN) target[mirror] = value;
+  }
+}
+
+/**
+ * Paints a straight brush stroke between two pointer positions in place,
+ * writing every sample it passes so fast strokes leave no gaps.
+ */
+export function paintSegment(
+  target: number[],
+  from: StrokePoint,
+  to: StrokePoint,
+  brushWidth: number,
+  constraints: DrawConstraints
+): void {
+  const before = Math.floor((brushWidth - 1) / 2);
+  const after = brushWidth - 1 - before;
+  const span = Math.max(1, Math.ceil(Math.abs(to.index - from.index)));
+  for (let s = 0; s <= span; s++) {
+    const t = s / span;
+    const center = Math.round(from.index + (to.index - from.index) * t);
+    const value = from.value + (to.value - from.value) * t;
+    for (let o = -before; o <= after; o++) writeSample(target, center + o, value, constraints);
+  }
+}
+
+/**
+ * Cubic Hermite spline through the control points, sampled at every index it
+ * covers. Tangents are central differences (Catmull-Rom for unevenly spaced
+ * points). A periodic spline is closed and covers the whole record; otherwise
+ * it spans the first to the last point.
+ */
+export function sampleSpline(points: ControlPoint[], n: number, periodic: boolean): StrokePoint[] {
+  if (points.length === 0 || n < 2) return [];
+  const sorted = [...points]
+    .map(p => ({ x: p.position * (n - 1), y: p.value }))
+    .sort((a, b) => a.x - b.x);
+  if (sorted.length === 1) return [{ index: Math.round(sorted[0].x), value: sorted[0].y }];
+
+  // Knots; a closed spline gets wrapped neighbours one period away on each side
+  const knots = periodic
+    ? [{ x: sorted[sorted.length - 1].x - n, y: sorted[sorted.length - 1].y }, ...sorted, { x: sorted[0].x + n, y: sorted[0].y }]
+    : sorted;
+  const slopes = knots.map((k, i) => {
+    const prev = knots[Math.max(0, i - 1)];
+    const next = knots[Math.min(knots.length - 1, i + 1)];
+    return next.x > prev.x ? (next.y - prev.y) / (next.x - prev.x) : 0;
+  });
+
+  const from = periodic ? 0 : Math.ceil(sorted[0].x);
+  const to = periodic ? n - 1 : Math.floor(sorted[sorted.length - 1].x);
+  const result: StrokePoint[] = [];
+  for (let i = from; i <= to; i++) {
+    // Indices before the first point of a closed spline lie on its wrapped last segment
+    const x = periodic && i < knots[1].x ? i + n : i;
+    let k = 0;
+    while (k < knots.length - 2 && x > knots[k + 1].x) k++;
+    const a = knots[k];
+    const b = knots[k + 1];
+    const h = b.x - a.x;
+    if (h <= 0) {
+      result.push({ index: i, value: b.y });
+      continue;
+    }
+    const t = Math.min(1, Math.max(0, (x - a.x) / h));
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const value = (2 * t3 - 3 * t2 + 1) * a.y
+      + (t3 - 2 * t2 + t) * h * slopes[k]
+      + (-2 * t3 + 3 * t2) * b.y
+      + (t3 - t2) * h * slopes[k + 1];
+    result.push({ index: i, value });
+  }
+  return result;
+}
+
+/**
+ * Projects a whole signal onto the chosen symmetry: the even or odd part
+ * (x[n] ± x[-n]) / 2, with indices taken modulo the record length.
+ */
+export function applySymmetry(signal: number[], symmetry: DrawSymmetry): number[] {
+  if (symmetry === DrawSymmetry.NONE) return signal;
+  const n = signal.length;
+  const sign = symmetry === DrawSymmetry.EVEN ? 1 : -1;
+  return signal.map((v, i) => (v + sign * signal[wrap(n - i, n)]) / 2);
+}
+
+/**
+ * Resamples a drawn signal to a new number of points.
+ */
+export function resampleDrawing(source: number[], numPoints: number): number[] {
+  const next = new Array(numPoints).fill(0);
+  const srcLen = source.length;
+  if (srcLen === 0) return next;
+
+  // Choose interpolation strategy
+  // In Draw Mode, users expect "pixels" to scale up sharply (Nearest Neighbor),
+  // preserving high-frequency edges. Linear interpolation smooths them out.
+  // We use NN for upsampling, and keep Linear for downsampling (to average out data loss somewhat).
+  const useNearest = srcLen < numPoints;
+
+  for (let i = 0; i < numPoints; i++) {
+    if (useNearest) {
+      // Nearest Neighbor
+      const samplePos = (i / numPoints) * srcLen;
+      const index = Math.min(Math.floor(samplePos), srcLen - 1);
+      next[i] = source[index] ?? 0;
+    } else {
+      // Linear Interpolation
+      const samplePos = numPoints > 1 ? (i / (numPoints - 1)) * (srcLen - 1) : 0;
+      const indexLow = Math.floor(samplePos);
+      const indexHigh = Math.ceil(samplePos);
+      const weight = samplePos - indexLow;
+
+      const valLow = source[indexLow] ?? 0;
+      const valHigh = source[indexHigh] ?? (source[indexLow] ?? 0);
+
+      next[i] = valLow * (1 - weight) + valHigh * weight;
+    }
+  }
+  return next;
+}
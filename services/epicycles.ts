@@ -0,0 +1,50 @@
+import { Complex, FrequencyComponent } from '../types';
+
+/**
+ * Fourier series as rotating phasors: component k is the vector
+ * A·e^(i(2πkt/N + φ)), and the phasors are chained tip to tail. The real part
+ * of the chain's tip is the windowed signal divided by the window's coherent
+ * gain at time t, measured in samples, which is the signal itself for the
+ * rectangular window; for a two-sided spectrum the tip is the complex signal.
+ */
+
+// Terms below this fraction of the largest amplitude only add clutter
+const MIN_RELATIVE_AMPLITUDE = 1e-6;
+
+/**
+ * Components sorted by amplitude, largest first, at most maxTerms of them.
+ */
+export function sortEpicycles(components: FrequencyComponent[], maxTerms = Infinity): FrequencyComponent[] {
+  const peak = components.reduce((m, c) => Math.max(m, c.amplitude), 0);
+  if (peak === 0) return [];
+  return components
+    .filter(c => c.amplitude > peak * MIN_RELATIVE_AMPLITUDE)
+    .sort((a, b) => b.amplitude - a.amplitude)
+    .slice(0, Math.max(0, maxTerms));
+}
+
+/**
+ * Joints of the chain at time t: the origin, then the tip after each phasor.
+ */
+export function phasorChain(terms: FrequencyComponent[], t: number, n: number): Complex[] {
+  const joints: Complex[] = [{ re: 0, im: 0 }];
+  let re = 0;
+  let im = 0;
+  for (const { bin, amplitude, phase } of terms) {
+    const angle = (2 * Math.PI * bin * t) / n + phase;
+    re += amplitude * Math.cos(angle);
+    im += amplitude * Math.sin(angle);
+    joints.push({ re, im });
+  }
+  return joints;
+}
+
+/**
+ * Path of the chain's tip over one period, evaluated at `points` evenly spaced times.
+ */
+export function epicycleTrace(terms: FrequencyComponent[], n: number, points: number): Complex[] {
+  return Array.from({ length: points }, (_, i) => {
+    const joints = phasorChain(terms, (i * n) / points, n);
+    return joints[joints.length - 1];
+  });
+}
@@ -0,0 +1,444 @@
+/**
+ * Sandboxed expression language for Equation mode.
+ *
+ * Formulas are tokenized, parsed into a small AST and compiled into closures once,
+ * then evaluated per sample. Only the built-ins below are reachable, so pasted
+ * formulas cannot run arbitrary JavaScript.
+ */
+
+export interface ExpressionScope {
+  x: number; // Normalized position 0..1
+  t: number; // Time in seconds
+  n: number; // Sample index
+  N: number; // Number of samples
+  fs: number; // Sample rate in Hz
+  T: number; // Record duration in seconds
+}
+
+export type CompiledExpression = (scope: ExpressionScope) => number;
+
+/**
+ * Parse or compile error. `column` is 1-based.
+ */
+export class ExpressionError extends Error {
+  column: number;
+
+  constructor(message: string, column: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.column = column;
+  }
+}
+
+type TokenType = 'number' | 'ident' | 'op' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: number; // 0-based offset into the source
+}
+
+type Node =
+  | { kind: 'num'; value: number; pos: number }
+  | { kind: 'ident'; name: string; pos: number }
+  | { kind: 'unary'; op: string; arg: Node; pos: number }
+  | { kind: 'binary'; op: string; left: Node; right: Node; pos: number }
+  // Left-associative operators applied in turn, kept flat so long sums don't deepen the tree
+  | { kind: 'chain'; first: Node; rest: { op: string; right: Node }[]; pos: number }
+  | { kind: 'ternary'; test: Node; then: Node; otherwise: Node; pos: number }
+  | { kind: 'call'; name: string; args: Node[]; pos: number };
+
+const VARIABLES: (keyof ExpressionScope)[] = ['x', 't', 'n', 'N', 'fs', 'T'];
+
+export const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  PI: Math.PI,
+  tau: 2 * Math.PI,
+  TAU: 2 * Math.PI,
+  e: Math.E,
+  E: Math.E,
+  phi: (1 + Math.sqrt(5)) / 2,
+  SQRT2: Math.SQRT2,
+  SQRT1_2: Math.SQRT1_2,
+  LN2: Math.LN2,
+  LN10: Math.LN10,
+  LOG2E: Math.LOG2E,
+  LOG10E: Math.LOG10E,
+};
+
+const frac = (v: number) => v - Math.floor(v);
+
+// Own-property lookup so names like 'constructor' never reach Object.prototype
+const has = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name);
+
+/**
+ * Deterministic white noise in -1..1 for a given seed and sample index.
+ */
+function hashNoise(seed: number, index: number): number {
+  let h = (Math.imul(Math.floor(seed) | 0, 0x9e3779b1) ^ Math.imul(index | 0, 0x85ebca6b)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d) >>> 0;
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b) >>> 0;
+  h = (h ^ (h >>> 16)) >>> 0;
+  return (h / 4294967296) * 2 - 1;
+}
+
+interface BuiltIn {
+  minArgs: number;
+  maxArgs: number;
+  fn: (args: number[], scope: ExpressionScope) => number;
+}
+
+const math1 = (fn: (v: number) => number): BuiltIn => ({ minArgs: 1, maxArgs: 1, fn: ([a]) => fn(a) });
+
+export const FUNCTIONS: Record<string, BuiltIn> = {
+  sin: math1(Math.sin),
+  cos: math1(Math.cos),
+  tan: math1(Math.tan),
+  asin: math1(Math.asin),
+  acos: math1(Math.acos),
+  atan: math1(Math.atan),
+  sinh: math1(Math.sinh),
+  cosh: math1(Math.cosh),
+  tanh: math1(Math.tanh),
+  exp: math1(Math.exp),
+  log: math1(Math.log),
+  log2: math1(Math.log2),
+  log10: math1(Math.log10),
+  sqrt: math1(Math.sqrt),
+  cbrt: math1(Math.cbrt),
+  abs: math1(Math.abs),
+  sign: math1(Math.sign),
+  floor: math1(Math.floor),
+  ceil: math1(Math.ceil),
+  round: math1(Math.round),
+  trunc: math1(Math.trunc),
+  frac: math1(frac),
+  sinc: math1(v => (v === 0 ? 1 : Math.sin(Math.PI * v) / (Math.PI * v))),
+  atan2: { minArgs: 2, maxArgs: 2, fn: ([y, x]) => Math.atan2(y, x) },
+  pow: { minArgs: 2, maxArgs: 2, fn: ([a, b]) => Math.pow(a, b) },
+  mod: { minArgs: 2, maxArgs: 2, fn: ([a, b]) => a - b * Math.floor(a / b) },
+  hypot: { minArgs: 1, maxArgs: Infinity, fn: args => Math.hypot(...args) },
+  min: { minArgs: 1, maxArgs: Infinity, fn: args => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, fn: args => Math.max(...args) },
+  clamp: { minArgs: 3, maxArgs: 3, fn: ([v, lo, hi]) => Math.min(Math.max(v, lo), hi) },
+
+  // Waveforms of time t at frequency f (Hz)
+  square: { minArgs: 1, maxArgs: 2, fn: ([f, duty = 0.5], s) => (frac(f * s.t) < duty ? 1 : -1) },
+  saw: { minArgs: 1, maxArgs: 1, fn: ([f], s) => 2 * frac(f * s.t + 0.5) - 1 },
+  tri: { minArgs: 1, maxArgs: 1, fn: ([f], s) => 1 - 4 * Math.abs(frac(f * s.t + 0.25) - 0.5) },
+  // Linear sweep from f0 to f1 over the whole record
+  chirp: {
+    minArgs: 2,
+    maxArgs: 2,
+    fn: ([f0, f1], s) => Math.sin(2 * Math.PI * (f0 * s.t + ((f1 - f0) * s.t * s.t) / (2 * (s.T || 1)))),
+  },
+  step: { minArgs: 1, maxArgs: 1, fn: ([t0], s) => (s.t >= t0 ? 1 : 0) },
+  rect: { minArgs: 2, maxArgs: 2, fn: ([t0, t1], s) => (s.t >= t0 && s.t < t1 ? 1 : 0) },
+  noise: { minArgs: 0, maxArgs: 1, fn: ([seed = 1], s) => hashNoise(seed, s.n) },
+};
+
+const OPERATORS = ['**', '<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new ExpressionError(`Unexpected '${ch}'`, i + 1);
+      tokens.push({ type: 'number', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      // Dotted names allow formulas written as Math.sin(...) / Math.PI
+      const match = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*/.exec(source.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) throw new ExpressionError(`Unexpected character '${ch}'`, i + 1);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', pos: source.length });
+  return tokens;
+}
+
+// Binary operator precedence (higher binds tighter)
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6,
+};
+
+// Deeper nesting of parentheses, calls and operators would overflow the stack while parsing,
+// compiling or evaluating; flat operator chains don't count
+const MAX_DEPTH = 256;
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private nesting = 0; // parseUnary calls in progress, which every recursion passes through
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Node {
+    if (this.peek().type === 'eof') throw new ExpressionError('Empty expression', 1);
+    const node = this.parseTernary();
+    const next = this.peek();
+    if (next.type !== 'eof') throw new ExpressionError(`Unexpected '${next.value}'`, next.pos + 1);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.value !== value || token.type !== 'op') {
+      const found = token.type === 'eof' ? 'end of input' : `'${token.value}'`;
+      throw new ExpressionError(`Expected '${value}' but found ${found}`, token.pos + 1);
+    }
+    return token;
+  }
+
+  private parseTernary(): Node {
+    const test = this.parseBinary(1);
+    const token = this.peek();
+    if (token.type === 'op' && token.value === '?') {
+      this.next();
+      const then = this.parseTernary();
+      this.expect(':');
+      const otherwise = this.parseTernary();
+      return { kind: 'ternary', test, then, otherwise, pos: token.pos };
+    }
+    return test;
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    const first = this.parseUnary();
+    const rest: { op: string; right: Node }[] = [];
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'op' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+      this.next();
+      rest.push({ op: token.value, right: this.parseBinary(precedence + 1) });
+    }
+    return rest.length === 0 ? first : { kind: 'chain', first, rest, pos: first.pos };
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (this.nesting >= MAX_DEPTH) throw new ExpressionError('Expression is nested too deeply', token.pos + 1);
+    this.nesting++;
+    try {
+      if (token.type === 'op' && (token.value === '-' || token.value === '+' || token.value === '!')) {
+        this.next();
+        // -x^2 means -(x^2), so the operand may contain a power
+        const arg = this.parseUnary();
+        return { kind: 'unary', op: token.value, arg, pos: token.pos };
+      }
+      return this.parsePower();
+    } finally {
+      this.nesting--;
+    }
+  }
+
+  private parsePower(): Node {
+    const base = this.parsePrimary();
+    const token = this.peek();
+    if (token.type === 'op' && (token.value === '^' || token.value === '**')) {
+      this.next();
+      // Right-associative, and the exponent may carry its own sign
+      const exponent = this.parseUnary();
+      return { kind: 'binary', op: '^', left: base, right: exponent, pos: token.pos };
+    }
+    return base;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'num', value: parseFloat(token.value), pos: token.pos };
+    }
+
+    if (token.type === 'ident') {
+      const name = token.value.startsWith('Math.') ? token.value.slice(5) : token.value;
+      const after = this.peek();
+      if (after.type === 'op' && after.value === '(') {
+        this.next();
+        const args: Node[] = [];
+        if (!(this.peek().type === 'op' && this.peek().value === ')')) {
+          args.push(this.parseTernary());
+          while (this.peek().type === 'op' && this.peek().value === ',') {
+            this.next();
+            args.push(this.parseTernary());
+          }
+        }
+        this.expect(')');
+        return { kind: 'call', name, args, pos: token.pos };
+      }
+      return { kind: 'ident', name, pos: token.pos };
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      const inner = this.parseTernary();
+      this.expect(')');
+      return inner;
+    }
+
+    const found = token.type === 'eof' ? 'end of input' : `'${token.value}'`;
+    throw new ExpressionError(`Unexpected ${found}`, token.pos + 1);
+  }
+}
+
+type Evaluator = (scope: ExpressionScope) => number;
+
+const BINARY_OPS: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b,
+  '^': (a, b) => Math.pow(a, b),
+  '<': (a, b) => (a < b ? 1 : 0),
+  '<=': (a, b) => (a <= b ? 1 : 0),
+  '>': (a, b) => (a > b ? 1 : 0),
+  '>=': (a, b) => (a >= b ? 1 : 0),
+  '==': (a, b) => (a === b ? 1 : 0),
+  '!=': (a, b) => (a !== b ? 1 : 0),
+};
+
+function compileNode(node: Node): Evaluator {
+  switch (node.kind) {
+    case 'num': {
+      const value = node.value;
+      return () => value;
+    }
+    case 'ident': {
+      if ((VARIABLES as string[]).includes(node.name)) {
+        const key = node.name as keyof ExpressionScope;
+        return scope => scope[key];
+      }
+      if (has(CONSTANTS, node.name)) {
+        const value = CONSTANTS[node.name];
+        return () => value;
+      }
+      if (has(FUNCTIONS, node.name)) {
+        throw new ExpressionError(`'${node.name}' is a function; call it like ${node.name}(...)`, node.pos + 1);
+      }
+      throw new ExpressionError(`Unknown name '${node.name}'`, node.pos + 1);
+    }
+    case 'unary': {
+      const arg = compileNode(node.arg);
+      if (node.op === '-') return scope => -arg(scope);
+      if (node.op === '!') return scope => (arg(scope) ? 0 : 1);
+      return arg;
+    }
+    case 'binary': {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      const op = BINARY_OPS[node.op];
+      return scope => op(left(scope), right(scope));
+    }
+    case 'chain': {
+      const first = compileNode(node.first);
+      const steps = node.rest.map(({ op, right }): ((value: number, scope: ExpressionScope) => number) => {
+        const evaluate = compileNode(right);
+        if (op === '&&') return (value, scope) => (value && evaluate(scope) ? 1 : 0);
+        if (op === '||') return (value, scope) => (value || evaluate(scope) ? 1 : 0);
+        const apply = BINARY_OPS[op];
+        return (value, scope) => apply(value, evaluate(scope));
+      });
+      return scope => {
+        let value = first(scope);
+        for (const step of steps) value = step(value, scope);
+        return value;
+      };
+    }
+    case 'ternary': {
+      const test = compileNode(node.test);
+      const then = compileNode(node.then);
+      const otherwise = compileNode(node.otherwise);
+      return scope => (test(scope) ? then(scope) : otherwise(scope));
+    }
+    case 'call': {
+      const builtIn = has(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!builtIn) throw new ExpressionError(`Unknown function '${node.name}'`, node.pos + 1);
+      const count = node.args.length;
+      if (count < builtIn.minArgs || count > builtIn.maxArgs) {
+        const expected = builtIn.minArgs === builtIn.maxArgs
+          ? `${builtIn.minArgs}`
+          : builtIn.maxArgs === Infinity
+            ? `at least ${builtIn.minArgs}`
+            : `${builtIn.minArgs}-${builtIn.maxArgs}`;
+        throw new ExpressionError(`${node.name}() takes ${expected} argument(s), got ${count}`, node.pos + 1);
+      }
+      const args = node.args.map(compileNode);
+      const fn = builtIn.fn;
+      return scope => fn(args.map(a => a(scope)), scope);
+    }
+  }
+}
+
+/**
+ * Parses and compiles a formula. Throws ExpressionError with a column on failure.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  return compileNode(new Parser(source).parse());
+}
+
+/**
+ * Samples a compiled expression over N points at the given sample rate.
+ * Non-finite results become 0.
+ */
+export function sampleExpression(expression: CompiledExpression, numPoints: number, sampleRate: number): number[] {
+  return sampleExpressionAt(expression, Array.from({ length: numPoints }, (_, i) => i), numPoints, sampleRate);
+}
+
+/**
+ * Evaluates a compiled expression at fractional sample positions, e.g. between
+ * or outside the N samples, to approximate the continuous signal.
+ */
+export function sampleExpressionAt(expression: CompiledExpression, positions: number[], numPoints: number, sampleRate: number): number[] {
+  const scope: ExpressionScope = { x: 0, t: 0, n: 0, N: numPoints, fs: sampleRate, T: numPoints / sampleRate };
+  return positions.map(position => {
+    scope.x = position / numPoints;
+    scope.t = position / sampleRate;
+    scope.n = position;
+    const value = expression(scope);
+    return isFinite(value) ? value : 0;
+  });
+}
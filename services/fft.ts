@@ -1,110 +1,341 @@
 
-import { Complex, FrequencyComponent } from '../types';
+import { Butterfly, Complex, FftStage, FftTrace, FrequencyComponent, GrayImage, ReconstructionMode, ReconstructionStats, Spectrum2D } from '../types';
+import { fftInPlace, ifftInPlace, isPowerOfTwo } from './fftCore';
 
-/**
- * Standard O(N^2) Discrete Fourier Transform.
- * Used as fallback for non-power-of-2 lengths.
- */
-function dft(input: number[]): Complex[] {
+function toTypedArrays(input: Complex[]) {
   const n = input.length;
-  const output: Complex[] = [];
-  for (let k = 0; k < n; k++) {
-    let re = 0;
-    let im = 0;
-    for (let t = 0; t < n; t++) {
-      const angle = (2 * Math.PI * k * t) / n;
-      re += input[t] * Math.cos(angle);
-      im -= input[t] * Math.sin(angle);
-    }
-    output.push({ re, im });
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    re[i] = input[i]?.re || 0;
+    im[i] = input[i]?.im || 0;
+  }
+  return { re, im };
+}
+
+function fromTypedArrays(re: Float64Array, im: Float64Array): Complex[] {
+  const output: Complex[] = new Array(re.length);
+  for (let i = 0; i < re.length; i++) {
+    output[i] = { re: re[i], im: im[i] };
   }
   return output;
 }
 
 /**
- * Standard Radix-2 FFT implementation.
- * Falls back to DFT if input length is not a power of 2.
+ * FFT of any length. Thin wrapper over the typed-array kernels in fftCore.
  */
 export function fft(input: number[]): Complex[] {
   const n = input.length;
   if (n <= 1) {
     return [{ re: input[0] || 0, im: 0 }];
   }
+  const re = Float64Array.from(input, v => v || 0);
+  const im = new Float64Array(n);
+  fftInPlace(re, im);
+  return fromTypedArrays(re, im);
+}
+
+/**
+ * FFT of a complex signal given as separate real (I) and imaginary (Q) parts.
+ */
+export function fftComplex(real: number[], imag: number[]): Complex[] {
+  const n = real.length;
+  const re = Float64Array.from(real, v => v || 0);
+  const im = Float64Array.from({ length: n }, (_, i) => imag[i] || 0);
+  fftInPlace(re, im);
+  return fromTypedArrays(re, im);
+}
+
+/**
+ * Radix-2 decimation-in-time FFT that records every stage: the bit-reversed
+ * (even/odd split) order, then each butterfly with its twiddle factor and
+ * values. Same arithmetic as the radix-2 kernel, kept separate (and slow) for
+ * the step-by-step walkthrough. The length must be a power of two.
+ */
+export function traceFft(real: number[], imag: number[] | null = null): FftTrace {
+  const n = real.length;
+  if (!isPowerOfTwo(n)) throw new Error(`FFT trace needs a power-of-two length, got ${n}`);
+  const input = real.map((re, i) => ({ re: re || 0, im: imag?.[i] || 0 }));
+  const bits = Math.log2(n);
+  const order = input.map((_, i) => {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+    return r;
+  });
 
-  // Fallback to DFT if not power of 2
-  if ((n & (n - 1)) !== 0) {
-    return dft(input);
+  let values = order.map(i => ({ ...input[i] }));
+  const stages: FftStage[] = [];
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size / 2;
+    const next = values.map(v => ({ ...v }));
+    const butterflies: Butterfly[] = [];
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const angle = (-2 * Math.PI * k) / size;
+        const twiddle = { re: Math.cos(angle), im: Math.sin(angle) };
+        const a = values[start + k];
+        const b = values[start + k + half];
+        const wb = { re: twiddle.re * b.re - twiddle.im * b.im, im: twiddle.re * b.im + twiddle.im * b.re };
+        next[start + k] = { re: a.re + wb.re, im: a.im + wb.im };
+        next[start + k + half] = { re: a.re - wb.re, im: a.im - wb.im };
+        butterflies.push({
+          top: start + k,
+          bottom: start + k + half,
+          twiddleIndex: k,
+          twiddle,
+          inputs: [a, b],
+          outputs: [next[start + k], next[start + k + half]],
+        });
+      }
+    }
+    stages.push({ size, butterflies, values: next });
+    values = next;
   }
+  return { input, order, stages };
+}
 
-  const evenInput: number[] = [];
-  const oddInput: number[] = [];
-  for (let i = 0; i < n; i++) {
-    if (i % 2 === 0) evenInput.push(input[i]);
-    else oddInput.push(input[i]);
+/**
+ * Appends zeros up to `length`. Padding interpolates the spectrum onto a finer
+ * grid without adding resolution: the bins of the original N samples are every
+ * (length / N)-th bin of the padded transform.
+ */
+export function zeroPad(signal: number[], length: number): number[] {
+  if (length <= signal.length) return signal;
+  const out = signal.slice();
+  out.length = length;
+  return out.fill(0, signal.length);
+}
+
+/**
+ * Inverse FFT of any length (includes the 1/N scaling).
+ */
+export function ifft(input: Complex[]): Complex[] {
+  if (input.length === 0) return [];
+  const { re, im } = toTypedArrays(input);
+  ifftInPlace(re, im);
+  return fromTypedArrays(re, im);
+}
+
+/**
+ * Row-column 2D transform in place: a 1D transform of every row, then of
+ * every column of the result. The inverse includes the 1/(W·H) scaling.
+ */
+function transform2d(re: Float64Array, im: Float64Array, width: number, height: number, inverse: boolean): void {
+  const kernel = inverse ? ifftInPlace : fftInPlace;
+  const rowRe = new Float64Array(width);
+  const rowIm = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    const offset = y * width;
+    rowRe.set(re.subarray(offset, offset + width));
+    rowIm.set(im.subarray(offset, offset + width));
+    kernel(rowRe, rowIm);
+    re.set(rowRe, offset);
+    im.set(rowIm, offset);
   }
 
-  const even = fft(evenInput);
-  const odd = fft(oddInput);
-
-  const results: Complex[] = new Array(n);
-  for (let k = 0; k < n / 2; k++) {
-    const angle = (-2 * Math.PI * k) / n;
-    const w: Complex = {
-      re: Math.cos(angle),
-      im: Math.sin(angle),
-    };
-
-    // Safely access recursive results
-    const oddK = odd[k] || { re: 0, im: 0 };
-    const evenK = even[k] || { re: 0, im: 0 };
-
-    // oddK * w
-    const oddW: Complex = {
-      re: oddK.re * w.re - oddK.im * w.im,
-      im: oddK.re * w.im + oddK.im * w.re,
-    };
-
-    results[k] = {
-      re: evenK.re + oddW.re,
-      im: evenK.im + oddW.im,
-    };
-    results[k + n / 2] = {
-      re: evenK.re - oddW.re,
-      im: evenK.im - oddW.im,
-    };
+  const colRe = new Float64Array(height);
+  const colIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      colRe[y] = re[y * width + x];
+      colIm[y] = im[y * width + x];
+    }
+    kernel(colRe, colIm);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = colRe[y];
+      im[y * width + x] = colIm[y];
+    }
   }
+}
 
-  return results;
+/**
+ * 2D FFT of a grayscale image.
+ */
+export function fft2d(image: GrayImage): Spectrum2D {
+  const { width, height } = image;
+  const re = Float64Array.from(image.pixels);
+  const im = new Float64Array(re.length);
+  transform2d(re, im, width, height, false);
+  return { width, height, re, im };
+}
+
+/**
+ * Inverse 2D FFT (includes the 1/(W·H) scaling).
+ */
+export function ifft2d(spectrum: Spectrum2D): Spectrum2D {
+  const { width, height } = spectrum;
+  const re = spectrum.re.slice();
+  const im = spectrum.im.slice();
+  transform2d(re, im, width, height, true);
+  return { width, height, re, im };
+}
+
+/**
+ * Swaps quadrants so DC moves to the centre (floor(W/2), floor(H/2)).
+ */
+export function fftShift2d(values: Float64Array, width: number, height: number): Float64Array {
+  const out = new Float64Array(values.length);
+  const dx = Math.floor(width / 2);
+  const dy = Math.floor(height / 2);
+  for (let y = 0; y < height; y++) {
+    const row = ((y + dy) % height) * width;
+    for (let x = 0; x < width; x++) {
+      out[row + ((x + dx) % width)] = values[y * width + x];
+    }
+  }
+  return out;
 }
 
-export function getFrequencyComponents(fftData: Complex[], n: number): FrequencyComponent[] {
+/**
+ * Rebuilds a signal from the selected (signed) frequency bins, DC being bin 0,
+ * and returns its real part. With `mirror`, each bin k also keeps its conjugate
+ * N-k so a real input stays real; complex inputs pass false so positive and
+ * negative frequencies can be picked independently.
+ */
+export function reconstructSignal(fftData: Complex[], bins: Iterable<number>, mirror = true): number[] {
+  const n = fftData.length;
+  if (n === 0) return [];
+
+  const masked: Complex[] = new Array(n).fill(null).map(() => ({ re: 0, im: 0 }));
+  for (const bin of bins) {
+    const k = ((bin % n) + n) % n;
+    masked[k] = { ...fftData[k] };
+    if (mirror && k !== 0) masked[n - k] = { ...fftData[n - k] };
+  }
+
+  return ifft(masked).map(c => c.re);
+}
+
+/**
+ * Error metrics between an original signal and its reconstruction.
+ */
+export function computeReconstructionStats(original: number[], reconstructed: number[]): ReconstructionStats {
+  const n = Math.min(original.length, reconstructed.length);
+  if (n === 0) return { rmsError: 0, maxError: 0, energyCaptured: 0 };
+
+  let errorSq = 0;
+  let maxError = 0;
+  let energy = 0;
+  let reconEnergy = 0;
+  for (let i = 0; i < n; i++) {
+    const err = original[i] - reconstructed[i];
+    errorSq += err * err;
+    maxError = Math.max(maxError, Math.abs(err));
+    energy += original[i] * original[i];
+    reconEnergy += reconstructed[i] * reconstructed[i];
+  }
+
+  return {
+    rmsError: Math.sqrt(errorSq / n),
+    maxError,
+    energyCaptured: energy > 0 ? reconEnergy / energy : 1,
+  };
+}
+
+/**
+ * Picks which component bins take part in a reconstruction.
+ */
+export function selectReconstructionFrequencies(
+  components: FrequencyComponent[],
+  mode: ReconstructionMode,
+  count: number,
+  disabled: Set<number>
+): number[] {
+  switch (mode) {
+    case ReconstructionMode.TOP_K:
+      return [...components]
+        .sort((a, b) => b.amplitude - a.amplitude)
+        .slice(0, count)
+        .map(c => c.bin);
+    case ReconstructionMode.PARTIAL_SUM:
+      return components
+        .filter(c => Math.abs(c.bin) <= count)
+        .map(c => c.bin);
+    case ReconstructionMode.MANUAL:
+      return components
+        .filter(c => !disabled.has(c.bin))
+        .map(c => c.bin);
+    default:
+      return components.map(c => c.bin);
+  }
+}
+
+/**
+ * Extracts single-sided frequency components from DC up to Nyquist. Interior
+ * bins are doubled to fold in their negative-frequency twin; DC and (for even
+ * lengths) Nyquist have no twin and are not. `n` is the number of real samples,
+ * so a zero-padded transform keeps the same tone heights. Pass the window's
+ * coherent gain when the signal was windowed so amplitudes match the unwindowed
+ * tone heights, and the sample rate to label components in Hz (defaults to
+ * one-second records).
+ */
+export function getFrequencyComponents(fftData: Complex[], n: number, windowGain = 1, sampleRate = n): FrequencyComponent[] {
   if (!fftData || fftData.length === 0) return [];
   
   const components: FrequencyComponent[] = [];
   const actualLen = fftData.length;
-  // Use the smaller of the two to avoid out-of-bounds
   const half = Math.floor(actualLen / 2);
   
-  // Only use first half (Nyquist)
-  for (let k = 1; k < half; k++) {
+  for (let k = 0; k <= half; k++) {
     const bin = fftData[k];
     if (!bin) continue;
 
     const re = bin.re;
     const im = bin.im;
-    const amplitude = (Math.sqrt(re * re + im * im) * 2) / actualLen;
+    const sides = k === 0 || 2 * k === actualLen ? 1 : 2;
+    const amplitude = (Math.sqrt(re * re + im * im) * sides) / ((n || actualLen) * (windowGain || 1));
     const phase = Math.atan2(im, re);
-    
-    // Generate the time-domain sine wave for this component
-    const signal = new Array(actualLen).fill(0).map((_, i) => {
-      return amplitude * Math.cos((2 * Math.PI * k * i) / actualLen + phase);
-    });
 
     components.push({
-      frequency: k,
+      bin: k,
+      frequency: (k * sampleRate) / actualLen,
       amplitude,
       phase,
-      signal
+    });
+  }
+  return components;
+}
+
+/**
+ * Time-domain sine wave of a single component over an n-sample record.
+ * Generated on demand so only the components actually drawn pay for it;
+ * `points` evaluates it at fewer, evenly spaced positions for display.
+ */
+export function componentWaveform(component: FrequencyComponent, n: number, points = n): number[] {
+  const out = new Array(points);
+  const step = n / points;
+  for (let i = 0; i < points; i++) {
+    out[i] = componentValue(component, n, i * step);
+  }
+  return out;
+}
+
+/**
+ * Value of a single component at sample position t (fractional positions allowed).
+ */
+export function componentValue(component: FrequencyComponent, n: number, t: number): number {
+  const { bin, amplitude, phase } = component;
+  return amplitude * Math.cos((2 * Math.PI * bin * t) / n + phase);
+}
+
+/**
+ * Two-sided spectrum in fftshift order (-fs/2 up to just below +fs/2), DC included.
+ * Amplitudes are not doubled, so a real tone shows up as two half-height lines.
+ * As above, `n` is the number of real samples when the transform was zero-padded.
+ */
+export function getTwoSidedComponents(fftData: Complex[], windowGain = 1, sampleRate = fftData.length, n = fftData.length): FrequencyComponent[] {
+  const length = fftData.length;
+  if (length === 0) return [];
+
+  const components: FrequencyComponent[] = [];
+  const lowest = -Math.floor(length / 2);
+  for (let bin = lowest; bin < lowest + length; bin++) {
+    const { re, im } = fftData[(bin + length) % length];
+    components.push({
+      bin,
+      frequency: (bin * sampleRate) / length,
+      amplitude: Math.sqrt(re * re + im * im) / ((n || length) * (windowGain || 1)),
+      phase: Math.atan2(im, re),
     });
   }
   return components;
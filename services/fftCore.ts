@@ -0,0 +1,253 @@
+/**
+ * Typed-array FFT kernels.
+ *
+ * Every transform works in place on separate real/imaginary Float64Arrays:
+ *  - powers of two use an iterative radix-2 kernel,
+ *  - lengths whose factors are only 2, 3 and 5 use a mixed-radix kernel,
+ *  - everything else (primes and other awkward lengths) uses Bluestein's chirp-z.
+ * All three run in O(N log N).
+ */
+
+const twiddleCache = new Map<number, { re: Float64Array; im: Float64Array }>();
+
+/**
+ * exp(-2πik/N) for k = 0..N-1, cached per length.
+ */
+function getTwiddles(n: number) {
+  let cached = twiddleCache.get(n);
+  if (!cached) {
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    for (let k = 0; k < n; k++) {
+      const angle = (-2 * Math.PI * k) / n;
+      re[k] = Math.cos(angle);
+      im[k] = Math.sin(angle);
+    }
+    cached = { re, im };
+    twiddleCache.set(n, cached);
+  }
+  return cached;
+}
+
+export function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+export function nextPowerOfTwo(n: number): number {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+}
+
+/**
+ * Splits n into factors of 4, 2, 3 and 5. Returns null if anything else remains.
+ */
+function factorize(n: number): number[] | null {
+  const factors: number[] = [];
+  let rest = n;
+  for (const p of [4, 2, 3, 5]) {
+    while (rest % p === 0) {
+      factors.push(p);
+      rest /= p;
+    }
+  }
+  return rest === 1 ? factors : null;
+}
+
+/**
+ * Iterative in-place radix-2 FFT (bit-reversal permutation followed by butterflies).
+ */
+function radix2(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (n <= 1) return;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  const tw = getTwiddles(n);
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = tw.re[k * step];
+        const wi = tw.im[k * step];
+        const a = start + k;
+        const b = a + half;
+        const xr = re[b] * wr - im[b] * wi;
+        const xi = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - xr;
+        im[b] = im[a] - xi;
+        re[a] += xr;
+        im[a] += xi;
+      }
+    }
+  }
+}
+
+/**
+ * Recursive decimation-in-time step of the mixed-radix kernel.
+ * Reads `n` samples from `inRe/inIm` starting at `inOffset` with `stride`,
+ * writes the transform into `outRe/outIm` starting at `outOffset`.
+ */
+function mixedRadixStep(
+  outRe: Float64Array,
+  outIm: Float64Array,
+  outOffset: number,
+  inRe: Float64Array,
+  inIm: Float64Array,
+  inOffset: number,
+  stride: number,
+  factors: number[],
+  factorIndex: number,
+  twRe: Float64Array,
+  twIm: Float64Array,
+  scratchRe: Float64Array,
+  scratchIm: Float64Array
+): void {
+  const total = twRe.length;
+  const p = factors[factorIndex];
+  const m = total / (stride * p);
+
+  if (m === 1) {
+    for (let q = 0; q < p; q++) {
+      outRe[outOffset + q] = inRe[inOffset + q * stride];
+      outIm[outOffset + q] = inIm[inOffset + q * stride];
+    }
+  } else {
+    for (let q = 0; q < p; q++) {
+      mixedRadixStep(
+        outRe, outIm, outOffset + q * m,
+        inRe, inIm, inOffset + q * stride,
+        stride * p, factors, factorIndex + 1,
+        twRe, twIm, scratchRe, scratchIm
+      );
+    }
+  }
+
+  // Generic radix-p butterfly over the p sub-transforms of length m
+  for (let u = 0; u < m; u++) {
+    for (let q = 0; q < p; q++) {
+      scratchRe[q] = outRe[outOffset + u + q * m];
+      scratchIm[q] = outIm[outOffset + u + q * m];
+    }
+    for (let q1 = 0; q1 < p; q1++) {
+      const k = u + q1 * m;
+      let sr = scratchRe[0];
+      let si = scratchIm[0];
+      for (let q = 1; q < p; q++) {
+        const t = (q * k * stride) % total;
+        const wr = twRe[t];
+        const wi = twIm[t];
+        sr += scratchRe[q] * wr - scratchIm[q] * wi;
+        si += scratchRe[q] * wi + scratchIm[q] * wr;
+      }
+      outRe[outOffset + k] = sr;
+      outIm[outOffset + k] = si;
+    }
+  }
+}
+
+function mixedRadix(re: Float64Array, im: Float64Array, factors: number[]): void {
+  const n = re.length;
+  const tw = getTwiddles(n);
+  const inRe = re.slice();
+  const inIm = im.slice();
+  const scratchRe = new Float64Array(5);
+  const scratchIm = new Float64Array(5);
+  mixedRadixStep(re, im, 0, inRe, inIm, 0, 1, factors, 0, tw.re, tw.im, scratchRe, scratchIm);
+}
+
+/**
+ * Bluestein's chirp-z transform: rewrites a length-N DFT as a circular
+ * convolution of power-of-two length, which radix-2 then handles.
+ */
+function bluestein(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  const m = nextPowerOfTwo(2 * n - 1);
+
+  // Chirp w[k] = exp(-iπk²/N); k² is reduced mod 2N to keep the angle accurate
+  const chirpRe = new Float64Array(n);
+  const chirpIm = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const k2 = (k * k) % (2 * n);
+    const angle = (-Math.PI * k2) / n;
+    chirpRe[k] = Math.cos(angle);
+    chirpIm[k] = Math.sin(angle);
+  }
+
+  const aRe = new Float64Array(m);
+  const aIm = new Float64Array(m);
+  for (let k = 0; k < n; k++) {
+    aRe[k] = re[k] * chirpRe[k] - im[k] * chirpIm[k];
+    aIm[k] = re[k] * chirpIm[k] + im[k] * chirpRe[k];
+  }
+
+  const bRe = new Float64Array(m);
+  const bIm = new Float64Array(m);
+  bRe[0] = chirpRe[0];
+  bIm[0] = -chirpIm[0];
+  for (let k = 1; k < n; k++) {
+    bRe[k] = bRe[m - k] = chirpRe[k];
+    bIm[k] = bIm[m - k] = -chirpIm[k];
+  }
+
+  radix2(aRe, aIm);
+  radix2(bRe, bIm);
+  for (let k = 0; k < m; k++) {
+    const r = aRe[k] * bRe[k] - aIm[k] * bIm[k];
+    const i = aRe[k] * bIm[k] + aIm[k] * bRe[k];
+    // Conjugate so the following forward transform acts as an inverse
+    aRe[k] = r;
+    aIm[k] = -i;
+  }
+  radix2(aRe, aIm);
+
+  for (let k = 0; k < n; k++) {
+    const cr = aRe[k] / m;
+    const ci = -aIm[k] / m;
+    re[k] = cr * chirpRe[k] - ci * chirpIm[k];
+    im[k] = cr * chirpIm[k] + ci * chirpRe[k];
+  }
+}
+
+/**
+ * Forward FFT of any length, in place.
+ */
+export function fftInPlace(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (n <= 1) return;
+
+  if (isPowerOfTwo(n)) {
+    radix2(re, im);
+    return;
+  }
+
+  const factors = factorize(n);
+  if (factors) {
+    mixedRadix(re, im, factors);
+  } else {
+    bluestein(re, im);
+  }
+}
+
+/**
+ * Inverse FFT of any length, in place (includes the 1/N scaling).
+ */
+export function ifftInPlace(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (n === 0) return;
+  for (let i = 0; i < n; i++) im[i] = -im[i];
+  fftInPlace(re, im);
+  for (let i = 0; i < n; i++) {
+    re[i] /= n;
+    im[i] = -im[i] / n;
+  }
+}
@@ -0,0 +1,188 @@
+import { FilterMethod, FilterSettings, FilterType } from '../types';
+import { fft, fftComplex, ifft } from './fft';
+import { createWindow } from './window';
+
+/**
+ * Frequency-selective filters, either as ideal masks on the DFT bins or as
+ * windowed-sinc FIR filters. Frequencies are fractions of Nyquist (0..1), so a
+ * design survives sample-rate changes.
+ */
+
+export const FILTER_TYPE_LABELS: Record<FilterType, string> = {
+  [FilterType.OFF]: 'Off',
+  [FilterType.LOW_PASS]: 'Low-pass',
+  [FilterType.HIGH_PASS]: 'High-pass',
+  [FilterType.BAND_PASS]: 'Band-pass',
+  [FilterType.NOTCH]: 'Notch',
+  [FilterType.CUSTOM]: 'Custom',
+};
+
+export const FILTER_METHOD_LABELS: Record<FilterMethod, string> = {
+  [FilterMethod.MASK]: 'Ideal mask',
+  [FilterMethod.FIR]: 'FIR (windowed-sinc)',
+};
+
+export const CUSTOM_GAIN_POINTS = 17;
+
+// Density of the grid the custom curve is sampled on for FIR design
+const DESIGN_GRID = 1024;
+
+/**
+ * Gain of the ideal filter at a frequency given as a fraction of Nyquist.
+ */
+export function idealGain(settings: FilterSettings, fraction: number): number {
+  const f = Math.min(1, Math.abs(fraction));
+  const low = Math.min(settings.cutoff, settings.cutoffHigh);
+  const high = Math.max(settings.cutoff, settings.cutoffHigh);
+  switch (settings.type) {
+    case FilterType.LOW_PASS:
+      return f <= settings.cutoff ? 1 : 0;
+    case FilterType.HIGH_PASS:
+      return f >= settings.cutoff ? 1 : 0;
+    case FilterType.BAND_PASS:
+      return f >= low && f <= high ? 1 : 0;
+    case FilterType.NOTCH:
+      return f >= low && f <= high ? 0 : 1;
+    case FilterType.CUSTOM: {
+      const gains = settings.customGains;
+      if (gains.length === 0) return 1;
+      const x = f * (gains.length - 1);
+      const i = Math.min(Math.floor(x), gains.length - 2);
+      if (i < 0) return gains[0];
+      return gains[i] + (gains[i + 1] - gains[i]) * (x - i);
+    }
+    default:
+      return 1;
+  }
+}
+
+// Ideal low-pass impulse response centred on tap `center`, cutoff as a fraction of Nyquist
+const sincLowPass = (cutoff: number, length: number, center: number) =>
+  Array.from({ length }, (_, k) => {
+    const m = k - center;
+    return m === 0 ? cutoff : Math.sin(Math.PI * cutoff * m) / (Math.PI * m);
+  });
+
+/**
+ * Designs a linear-phase FIR filter of settings.taps (odd) taps: the ideal
+ * impulse response truncated and tapered by a symmetric window. Standard types
+ * use the closed-form sinc; the custom curve uses frequency sampling.
+ */
+export function designFir(settings: FilterSettings): number[] {
+  const length = Math.max(1, settings.taps | 1);
+  const center = (length - 1) / 2;
+  const low = Math.min(settings.cutoff, settings.cutoffHigh);
+  const high = Math.max(settings.cutoff, settings.cutoffHigh);
+  const impulse = Array.from({ length }, (_, k) => (k === center ? 1 : 0));
+
+  let ideal: number[];
+  switch (settings.type) {
+    case FilterType.LOW_PASS:
+      ideal = sincLowPass(settings.cutoff, length, center);
+      break;
+    case FilterType.HIGH_PASS:
+      ideal = sincLowPass(settings.cutoff, length, center).map((h, k) => impulse[k] - h);
+      break;
+    case FilterType.BAND_PASS: {
+      const lp = sincLowPass(low, length, center);
+      ideal = sincLowPass(high, length, center).map((h, k) => h - lp[k]);
+      break;
+    }
+    case FilterType.NOTCH: {
+      const lp = sincLowPass(low, length, center);
+      ideal = sincLowPass(high, length, center).map((h, k) => impulse[k] - (h - lp[k]));
+      break;
+    }
+    case FilterType.CUSTOM: {
+      // Zero-phase inverse DFT of the desired (real, even) response on a dense grid
+      const half = DESIGN_GRID / 2;
+      const desired = Array.from({ length: half + 1 }, (_, i) => idealGain(settings, i / half));
+      ideal = Array.from({ length }, (_, k) => {
+        const m = k - center;
+        let sum = desired[0] + desired[half] * Math.cos(Math.PI * m);
+        for (let i = 1; i < half; i++) sum += 2 * desired[i] * Math.cos((2 * Math.PI * i * m) / DESIGN_GRID);
+        return sum / DESIGN_GRID;
+      });
+      break;
+    }
+    default:
+      return impulse;
+  }
+
+  // A periodic window of length L-1 plus its first sample again is the symmetric window of length L
+  const periodic = createWindow(settings.window, length - 1);
+  const window = length === 1 ? [1] : [...periodic, periodic[0]];
+  return ideal.map((h, k) => h * window[k]);
+}
+
+/**
+ * Magnitude response |H| of FIR taps at a frequency given as a fraction of Nyquist.
+ */
+export function firResponse(taps: number[], fraction: number): number {
+  const w = Math.PI * fraction;
+  let re = 0;
+  let im = 0;
+  for (let k = 0; k < taps.length; k++) {
+    re += taps[k] * Math.cos(w * k);
+    im -= taps[k] * Math.sin(w * k);
+  }
+  return Math.hypot(re, im);
+}
+
+/**
+ * Magnitude response at each frequency: the ideal mask, or the response of
+ * the designed taps when filtering with an FIR.
+ */
+export function filterResponse(settings: FilterSettings, fractions: number[], taps: number[] | null): number[] {
+  return fractions.map(f => (taps ? firResponse(taps, f) : idealGain(settings, f)));
+}
+
+/**
+ * Circular convolution with the taps, delayed by half the filter length so
+ * the output lines up with the input. Wrapping around matches the periodic
+ * signal the DFT assumes, so the output spectrum is exactly X[k]·H[k].
+ */
+function convolveCircular(signal: number[], taps: number[]): number[] {
+  const n = signal.length;
+  const center = (taps.length - 1) / 2;
+  return signal.map((_, i) => {
+    let sum = 0;
+    for (let k = 0; k < taps.length; k++) {
+      const j = (((i + center - k) % n) + n) % n;
+      sum += taps[k] * signal[j];
+    }
+    return sum;
+  });
+}
+
+/**
+ * Filters a real or complex (I/Q) signal. Gains depend on |f| only, so a real
+ * input stays real and both channels of a complex one see the same response.
+ */
+export function applyFilter(
+  signal: number[],
+  imagSignal: number[] | null,
+  settings: FilterSettings,
+  taps: number[] | null
+): { signal: number[]; imagSignal: number[] | null } {
+  const n = signal.length;
+  if (settings.type === FilterType.OFF || n === 0) return { signal, imagSignal };
+
+  if (settings.method === FilterMethod.FIR && taps) {
+    return {
+      signal: convolveCircular(signal, taps),
+      imagSignal: imagSignal ? convolveCircular(imagSignal, taps) : null,
+    };
+  }
+
+  const spectrum = imagSignal ? fftComplex(signal, imagSignal) : fft(signal);
+  const masked = spectrum.map((c, k) => {
+    const gain = idealGain(settings, (2 * Math.min(k, n - k)) / n);
+    return { re: c.re * gain, im: c.im * gain };
+  });
+  const output = ifft(masked);
+  return {
+    signal: output.map(c => c.re),
+    imagSignal: imagSignal ? output.map(c => c.im) : null,
+  };
+}
@@ -0,0 +1,174 @@
+import { GrayImage, MaskBrush, Spectrum2D } from '../types';
+import { fftShift2d, ifft2d } from './fft';
+
+/**
+ * Helpers for the 2D image transform: loading images as square power-of-two
+ * grayscale grids, the log-magnitude view and the frequency-domain mask.
+ *
+ * Masks use shifted coordinates (DC in the centre), the same layout as the
+ * magnitude surface and the canvas they are drawn on. 1 passes a bin, 0 blocks it.
+ */
+
+export const IMAGE_SIZES = [32, 64, 128, 256];
+
+export const MASK_BRUSH_LABELS: Record<MaskBrush, string> = {
+  [MaskBrush.BLOCK]: 'Block',
+  [MaskBrush.PASS]: 'Pass',
+};
+
+// ITU-R BT.601 luma weights
+const LUMA_R = 0.299;
+const LUMA_G = 0.587;
+const LUMA_B = 0.114;
+
+export async function decodeImage(file: File): Promise<ImageBitmap> {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image`);
+  return createImageBitmap(file);
+}
+
+/**
+ * Centre square crop of the bitmap, resized to size × size and converted to luminance.
+ */
+export function toGrayImage(bitmap: ImageBitmap, size: number): GrayImage {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const side = Math.min(bitmap.width, bitmap.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, size, size);
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const pixels = new Float64Array(size * size);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = (data[i * 4] * LUMA_R + data[i * 4 + 1] * LUMA_G + data[i * 4 + 2] * LUMA_B) / 255;
+  }
+  return { width: size, height: size, pixels };
+}
+
+/**
+ * Built-in image for when no file is loaded: a rectangle and a disk (broad,
+ * ringing spectra) over a diagonal grating with an 8-pixel period (two sharp peaks).
+ */
+export function testPattern(size: number): GrayImage {
+  const pixels = new Float64Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const u = x / size;
+      const v = y / size;
+      let value = 0.2;
+      if (Math.abs(u - 0.3) < 0.15 && Math.abs(v - 0.3) < 0.1) value = 0.85;
+      if ((u - 0.7) ** 2 + (v - 0.68) ** 2 < 0.02) value = 0.65;
+      value += 0.12 * Math.cos((2 * Math.PI * (x + y)) / 8);
+      pixels[y * size + x] = Math.min(1, Math.max(0, value));
+    }
+  }
+  return { width: size, height: size, pixels };
+}
+
+/**
+ * log(1 + |X|), shifted so DC is in the centre and normalized to 0..1.
+ */
+export function logMagnitude(spectrum: Spectrum2D): Float64Array {
+  const { width, height, re, im } = spectrum;
+  const values = new Float64Array(re.length);
+  let max = 0;
+  for (let i = 0; i < values.length; i++) {
+    values[i] = Math.log1p(Math.hypot(re[i], im[i]));
+    max = Math.max(max, values[i]);
+  }
+  if (max > 0) {
+    for (let i = 0; i < values.length; i++) values[i] /= max;
+  }
+  return fftShift2d(values, width, height);
+}
+
+export function createMask(width: number, height: number): Float64Array {
+  return new Float64Array(width * height).fill(1);
+}
+
+/**
+ * Ideal circular low- or high-pass mask. `cutoff` is the radius as a fraction
+ * of the Nyquist frequency along the shorter axis.
+ */
+export function radialMask(width: number, height: number, cutoff: number, lowPass: boolean): Float64Array {
+  const mask = new Float64Array(width * height);
+  const cx = Math.floor(width / 2);
+  const cy = Math.floor(height / 2);
+  const radius = cutoff * Math.min(cx, cy);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = Math.hypot(x - cx, y - cy) <= radius;
+      mask[y * width + x] = inside === lowPass ? 1 : 0;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Paints a disc into a copy of the mask. The mirrored point through DC is
+ * painted too: a real image has a conjugate-symmetric spectrum, and masking
+ * both halves keeps the reconstruction real.
+ */
+export function paintMask(mask: Float64Array, width: number, height: number, x: number, y: number, radius: number, brush: MaskBrush): Float64Array {
+  const out = mask.slice();
+  const value = brush === MaskBrush.PASS ? 1 : 0;
+  const mirrorX = (2 * Math.floor(width / 2) - x + width) % width;
+  const mirrorY = (2 * Math.floor(height / 2) - y + height) % height;
+  const r = Math.ceil(radius);
+  for (const [px, py] of [[x, y], [mirrorX, mirrorY]]) {
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        const tx = px + dx;
+        const ty = py + dy;
+        if (tx < 0 || ty < 0 || tx >= width || ty >= height || dx * dx + dy * dy > radius * radius) continue;
+        out[ty * width + tx] = value;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * The spectrum with every bin scaled by its (shifted) mask value.
+ */
+export function applyMask(spectrum: Spectrum2D, mask: Float64Array): Spectrum2D {
+  const { width, height } = spectrum;
+  const re = spectrum.re.slice();
+  const im = spectrum.im.slice();
+  const cx = Math.floor(width / 2);
+  const cy = Math.floor(height / 2);
+  for (let y = 0; y < height; y++) {
+    const row = ((y + cy) % height) * width;
+    for (let x = 0; x < width; x++) {
+      const gain = mask[row + ((x + cx) % width)];
+      re[y * width + x] *= gain;
+      im[y * width + x] *= gain;
+    }
+  }
+  return { width, height, re, im };
+}
+
+/**
+ * Real part of the inverse 2D FFT of the masked spectrum.
+ */
+export function maskedReconstruction(spectrum: Spectrum2D, mask: Float64Array): GrayImage {
+  const { width, height, re } = ifft2d(applyMask(spectrum, mask));
+  return { width, height, pixels: re };
+}
+
+/**
+ * Fraction of the spectrum's energy that the mask passes.
+ */
+export function passedEnergy(spectrum: Spectrum2D, mask: Float64Array): number {
+  const masked = applyMask(spectrum, mask);
+  let kept = 0;
+  let total = 0;
+  for (let i = 0; i < spectrum.re.length; i++) {
+    total += spectrum.re[i] ** 2 + spectrum.im[i] ** 2;
+    kept += masked.re[i] ** 2 + masked.im[i] ** 2;
+  }
+  return total > 0 ? kept / total : 1;
+}
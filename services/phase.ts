@@ -0,0 +1,63 @@
+import { FrequencyComponent, PhasePoint } from '../types';
+
+/**
+ * Removes 2π jumps between consecutive phase samples.
+ */
+export function unwrapPhase(phases: number[]): number[] {
+  const out: number[] = [];
+  let offset = 0;
+  for (let i = 0; i < phases.length; i++) {
+    if (i > 0) {
+      const delta = phases[i] - phases[i - 1];
+      offset -= 2 * Math.PI * Math.round(delta / (2 * Math.PI));
+    }
+    out.push(phases[i] + offset);
+  }
+  return out;
+}
+
+/**
+ * Phase spectrum of the components whose amplitude is within `thresholdDb` of the peak.
+ * Weaker bins are dropped because their phase is dominated by noise and rounding.
+ * Unwrapping and group delay (τ = -dφ/dω) run over each stretch of adjacent kept bins
+ * and restart after a gap, since nothing is known about the phase across it.
+ */
+export function computePhaseSpectrum(components: FrequencyComponent[], thresholdDb: number): PhasePoint[] {
+  if (components.length === 0) return [];
+
+  const peak = components.reduce((m, c) => Math.max(m, c.amplitude), 0);
+  if (peak <= 0) return [];
+  const floor = peak * Math.pow(10, thresholdDb / 20);
+
+  const kept = components
+    .filter(c => c.amplitude >= floor)
+    .sort((a, b) => a.frequency - b.frequency);
+
+  // Index of the first bin of the stretch each kept bin belongs to
+  const runStart: number[] = [];
+  kept.forEach((c, i) => runStart.push(i > 0 && c.bin === kept[i - 1].bin + 1 ? runStart[i - 1] : i));
+  const unwrapped: number[] = [];
+  for (let start = 0; start < kept.length;) {
+    let end = start + 1;
+    while (end < kept.length && runStart[end] === start) end++;
+    unwrapped.push(...unwrapPhase(kept.slice(start, end).map(c => c.phase)));
+    start = end;
+  }
+
+  return kept.map((c, i) => {
+    let groupDelay: number | null = null;
+    const lo = runStart[i] === runStart[i - 1] ? i - 1 : i;
+    const hi = runStart[i] === runStart[i + 1] ? i + 1 : i;
+    const df = kept[hi].frequency - kept[lo].frequency;
+    if (hi > lo && df !== 0) {
+      groupDelay = -(unwrapped[hi] - unwrapped[lo]) / (2 * Math.PI * df);
+    }
+    return {
+      bin: c.bin,
+      frequency: c.frequency,
+      wrapped: c.phase,
+      unwrapped: unwrapped[i],
+      groupDelay,
+    };
+  });
+}
@@ -0,0 +1,114 @@
+import { FilterMethod, FilterType, WindowType } from '../types';
+import { CompiledExpression, sampleExpressionAt } from './expression';
+import { designFir, firResponse } from './filter';
+import { fft, getFrequencyComponents } from './fft';
+import { applyWindow, coherentGain, createWindow } from './window';
+
+/**
+ * Sampling and aliasing helpers for Equation mode. The formula stands in for
+ * the continuous signal: it is evaluated on a grid OVERSAMPLING times finer
+ * than the sample grid, which is also where the anti-alias prefilter runs.
+ */
+
+export const OVERSAMPLING = 16;
+// Prefilter pass band edge as a fraction of the output Nyquist; the transition ends near Nyquist
+const PREFILTER_CUTOFF = 0.8;
+const PREFILTER_TAPS = 16 * OVERSAMPLING + 1;
+// Spectral peaks below this fraction of the largest are not reported as tones
+const TONE_THRESHOLD = 0.02;
+const MAX_TONES = 8;
+
+export interface SampledTone {
+  frequency: number; // True frequency in Hz, found on the dense grid
+  amplitude: number;
+  alias: number; // Frequency the samples show it at, 0..fs/2
+  zone: number; // Nyquist zone: 1 is 0..fs/2, 2 is fs/2..fs, ...
+}
+
+/**
+ * Windowed-sinc low-pass at the dense rate, normalized to unity gain at DC.
+ */
+const prefilter = (() => {
+  const taps = designFir({
+    type: FilterType.LOW_PASS,
+    method: FilterMethod.FIR,
+    cutoff: PREFILTER_CUTOFF / OVERSAMPLING,
+    cutoffHigh: 1,
+    taps: PREFILTER_TAPS,
+    window: { type: WindowType.HAMMING, kaiserBeta: 8.6 },
+    customGains: [],
+  });
+  const sum = taps.reduce((a, b) => a + b, 0);
+  return taps.map(h => h / sum);
+})();
+
+/**
+ * Frequency a real tone appears at after sampling at fs, folded into 0..fs/2.
+ */
+export function aliasFrequency(frequency: number, sampleRate: number): number {
+  const folded = ((Math.abs(frequency) % sampleRate) + sampleRate) % sampleRate;
+  return folded > sampleRate / 2 ? sampleRate - folded : folded;
+}
+
+export function nyquistZone(frequency: number, sampleRate: number): number {
+  return Math.floor(Math.abs(frequency) / (sampleRate / 2)) + 1;
+}
+
+/**
+ * Steady-state gain of the anti-alias prefilter at a frequency in Hz.
+ */
+export function prefilterGain(frequency: number, sampleRate: number): number {
+  const fraction = Math.abs(frequency) / ((OVERSAMPLING * sampleRate) / 2);
+  return fraction >= 1 ? 0 : firResponse(prefilter, fraction);
+}
+
+/**
+ * The formula on the dense grid: OVERSAMPLING points per sample over
+ * [start, end) sample positions.
+ */
+export function denseSamples(expression: CompiledExpression, numPoints: number, sampleRate: number, start = 0, end = numPoints): number[] {
+  const count = Math.max(0, Math.round((end - start) * OVERSAMPLING));
+  const positions = Array.from({ length: count }, (_, i) => start + i / OVERSAMPLING);
+  return sampleExpressionAt(expression, positions, numPoints, sampleRate);
+}
+
+/**
+ * Samples the formula through the anti-alias prefilter. The formula is
+ * evaluated beyond both ends of the record so the filter needs no padding.
+ */
+export function sampleWithPrefilter(expression: CompiledExpression, numPoints: number, sampleRate: number): number[] {
+  const margin = (prefilter.length - 1) / 2;
+  const dense = denseSamples(expression, numPoints, sampleRate, -margin / OVERSAMPLING, numPoints + margin / OVERSAMPLING);
+  return Array.from({ length: numPoints }, (_, n) => {
+    let sum = 0;
+    for (let j = 0; j < prefilter.length; j++) sum += prefilter[j] * dense[n * OVERSAMPLING + j];
+    return sum;
+  });
+}
+
+/**
+ * Tones of the formula up to OVERSAMPLING·fs/2: Hann-windowed spectral peaks
+ * of the dense record, largest first, with the frequency each one folds to.
+ */
+export function findTones(expression: CompiledExpression, numPoints: number, sampleRate: number): SampledTone[] {
+  const dense = denseSamples(expression, numPoints, sampleRate);
+  if (dense.length < 4) return [];
+  const window = createWindow({ type: WindowType.HANN, kaiserBeta: 8.6 }, dense.length);
+  const components = getFrequencyComponents(fft(applyWindow(dense, window)), dense.length, coherentGain(window), sampleRate * OVERSAMPLING);
+  const peak = components.reduce((m, c) => Math.max(m, c.amplitude), 0);
+  if (peak === 0) return [];
+
+  const tones: SampledTone[] = [];
+  components.forEach((c, k) => {
+    const left = components[k - 1]?.amplitude ?? -Infinity;
+    const right = components[k + 1]?.amplitude ?? -Infinity;
+    if (c.amplitude < peak * TONE_THRESHOLD || c.amplitude < left || c.amplitude <= right) return;
+    tones.push({
+      frequency: c.frequency,
+      amplitude: c.amplitude,
+      alias: aliasFrequency(c.frequency, sampleRate),
+      zone: nyquistZone(c.frequency, sampleRate),
+    });
+  });
+  return tones.sort((a, b) => b.amplitude - a.amplitude).slice(0, MAX_TONES);
+}
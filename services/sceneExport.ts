@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+
+/**
+ * Image and model exports of a react-three-fiber scene.
+ */
+
+export interface SceneHandle {
+  capturePng: (scale: number) => Promise<Blob>;
+  exportGlb: () => Promise<Blob>;
+}
+
+const BACKGROUND = '#020617';
+const MAX_TUBE_POINTS = 256;
+// Screen-space line widths (px) become tube radii in scene units
+const TUBE_RADIUS_PER_PIXEL = 0.008;
+
+/**
+ * Draws the HTML scene labels (elements marked data-scene-label) onto the
+ * capture at the same place and size they have on screen.
+ */
+function drawLabels(ctx: CanvasRenderingContext2D, container: HTMLElement, canvasRect: DOMRect, scale: number) {
+  container.querySelectorAll<HTMLElement>('[data-scene-label]').forEach(el => {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0 || el.offsetWidth === 0) return;
+    const style = getComputedStyle(el);
+    // Html labels are scaled with a CSS transform (distanceFactor); the rect includes it
+    const cssScale = rect.width / el.offsetWidth;
+    const x = (rect.left - canvasRect.left) * scale;
+    const y = (rect.top - canvasRect.top) * scale;
+    const w = rect.width * scale;
+    const h = rect.height * scale;
+
+    ctx.beginPath();
+    ctx.roundRect(x, y, w, h, parseFloat(style.borderTopLeftRadius) * cssScale * scale || 0);
+    ctx.fillStyle = style.backgroundColor;
+    ctx.fill();
+    ctx.lineWidth = Math.max(1, scale * cssScale);
+    ctx.strokeStyle = style.borderTopColor;
+    ctx.stroke();
+
+    const text = style.textTransform === 'uppercase' ? (el.textContent ?? '').toUpperCase() : el.textContent ?? '';
+    ctx.font = `${style.fontWeight} ${parseFloat(style.fontSize) * cssScale * scale}px ${style.fontFamily}`;
+    ctx.fillStyle = style.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, x + w / 2, y + h / 2);
+  });
+}
+
+/**
+ * Renders the scene at `scale` times the on-screen resolution and bakes the
+ * HTML labels into the image. The renderer is restored afterwards.
+ */
+export async function captureScenePng(
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  container: HTMLElement,
+  scale: number
+): Promise<Blob> {
+  const canvas = gl.domElement;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  const maxSize = gl.capabilities.maxTextureSize;
+  const factor = Math.max(1, Math.min(scale, maxSize / width, maxSize / height));
+
+  const output = document.createElement('canvas');
+  output.width = Math.round(width * factor);
+  output.height = Math.round(height * factor);
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('2D canvas is not available');
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, output.width, output.height);
+
+  const previousRatio = gl.getPixelRatio();
+  try {
+    gl.setPixelRatio(factor);
+    gl.setSize(width, height, false);
+    gl.render(scene, camera);
+    // Copy in the same task as the render; the drawing buffer isn't preserved
+    ctx.drawImage(canvas, 0, 0, output.width, output.height);
+  } finally {
+    gl.setPixelRatio(previousRatio);
+    gl.setSize(width, height, false);
+    gl.render(scene, camera);
+  }
+
+  drawLabels(ctx, container, canvas.getBoundingClientRect(), factor);
+
+  return new Promise((resolve, reject) => {
+    output.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
+
+type FatLine = THREE.Mesh & { isLine2?: boolean; isLineSegments2?: boolean };
+
+/**
+ * World-space vertices of a fat line (drei Line / Line2), read back from its
+ * per-segment instance attributes.
+ */
+function fatLinePoints(line: FatLine): THREE.Vector3[] {
+  const start = line.geometry.getAttribute('instanceStart');
+  const end = line.geometry.getAttribute('instanceEnd');
+  if (!start || !end || start.count === 0) return [];
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i < start.count; i++) {
+    points.push(new THREE.Vector3().fromBufferAttribute(start, i).applyMatrix4(line.matrixWorld));
+  }
+  points.push(new THREE.Vector3().fromBufferAttribute(end, end.count - 1).applyMatrix4(line.matrixWorld));
+  return points;
+}
+
+function lineToTube(line: FatLine): THREE.Mesh | null {
+  let points = fatLinePoints(line);
+  if (points.length < 2) return null;
+  if (points.length > MAX_TUBE_POINTS) {
+    const stride = (points.length - 1) / (MAX_TUBE_POINTS - 1);
+    points = Array.from({ length: MAX_TUBE_POINTS }, (_, i) => points[Math.round(i * stride)]);
+  }
+
+  const path = new THREE.CurvePath<THREE.Vector3>();
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].distanceToSquared(points[i - 1]) > 0) path.add(new THREE.LineCurve3(points[i - 1], points[i]));
+  }
+  if (path.curves.length === 0) return null;
+
+  const material = line.material as THREE.Material & { color?: THREE.Color; linewidth?: number };
+  const radius = (material.linewidth ?? 1) * TUBE_RADIUS_PER_PIXEL;
+  const geometry = new THREE.TubeGeometry(path, path.curves.length, radius, 6, false);
+  return new THREE.Mesh(
+    geometry,
+    new THREE.MeshStandardMaterial({
+      color: material.color ?? new THREE.Color('#ffffff'),
+      transparent: material.transparent,
+      opacity: material.opacity,
+    })
+  );
+}
+
+/**
+ * Binary glTF of the visible scene. Screen-space lines become tubes so the
+ * model has real thickness for slides and 3D printing; helpers and HTML labels
+ * are left out.
+ */
+export async function exportSceneGlb(scene: THREE.Scene): Promise<Blob> {
+  scene.updateMatrixWorld(true);
+  const root = new THREE.Group();
+  root.name = 'FFT Explorer';
+
+  scene.traverseVisible(object => {
+    const line = object as FatLine;
+    if (line.isLine2 || line.isLineSegments2) {
+      const tube = lineToTube(line);
+      if (tube) root.add(tube);
+      return;
+    }
+    if (!(object instanceof THREE.Mesh) || !(object.material instanceof THREE.MeshStandardMaterial)) return;
+    const mesh = new THREE.Mesh(object.geometry.clone().applyMatrix4(object.matrixWorld), object.material.clone());
+    mesh.material.side = THREE.DoubleSide;
+    root.add(mesh);
+  });
+
+  const result = await new GLTFExporter().parseAsync(root, { binary: true });
+  return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+}
@@ -0,0 +1,185 @@
+import {
+  CameraPose,
+  InputMode,
+  ReconstructionMode,
+  Session,
+  SignalSource,
+  SpectrumScale,
+  WindowType,
+} from '../types';
+
+/**
+ * Session (de)serialization for share links.
+ *
+ * A link carries the session as `#s=<payload>`: JSON, deflate-compressed where
+ * the browser supports CompressionStream, then base64url-encoded. The first
+ * payload character says how it was packed ('z' deflate, 'j' plain JSON).
+ * The JSON itself carries a schema `version`; normalizeSession is where
+ * migrations from older versions belong when the schema changes.
+ */
+
+export const SESSION_VERSION = 1;
+const FRAGMENT_KEY = 's';
+
+// Sample count limits, shared with the app's N input so every N it allows restores
+export const MIN_POINTS = 2;
+// The worker keeps N in the tens of thousands responsive; the cap keeps the 16× padded FFT near 256k points
+export const MAX_POINTS = 16384;
+
+export const DEFAULT_SIGNAL_SOURCE: SignalSource = {
+  equation: 'sin(2 * pi * 3 * x) + 0.5 * sin(2 * pi * 10 * x)',
+  imagEquation: 'sin(2 * pi * 3 * x)',
+  complexEquation: false,
+  rawNumbers: '',
+  iqPairs: false,
+  antiAlias: false,
+};
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pickNumber = (value: unknown, fallback: number, min = -Infinity, max = Infinity) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const pickString = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+
+const pickBoolean = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+const pickEnum = <T extends string>(value: unknown, options: Record<string, T>, fallback: T): T =>
+  Object.values(options).includes(value as T) ? (value as T) : fallback;
+
+const pickNumbers = (value: unknown): number[] | null =>
+  Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v)) ? (value as number[]) : null;
+
+const pickVector = (value: unknown): [number, number, number] | null => {
+  const v = pickNumbers(value);
+  return v && v.length === 3 ? [v[0], v[1], v[2]] : null;
+};
+
+/**
+ * Validates untrusted session JSON (from a link, localStorage or a file),
+ * filling anything missing or malformed with defaults.
+ */
+export function normalizeSession(value: unknown): Session {
+  if (!isObject(value)) throw new Error('Session data is not an object');
+  const version = pickNumber(value.version, 0);
+  if (version < 1) throw new Error('Session data has no schema version');
+  if (version > SESSION_VERSION) {
+    throw new Error(`Session was saved by a newer version (schema ${version}); please update the app`);
+  }
+
+  const source = isObject(value.source) ? value.source : {};
+  const windowSettings = isObject(value.window) ? value.window : {};
+  const scale = isObject(value.spectrumScale) ? value.spectrumScale : {};
+  const phase = isObject(value.phase) ? value.phase : {};
+  const reconstruction = isObject(value.reconstruction) ? value.reconstruction : {};
+  const camera = isObject(value.camera) ? value.camera : null;
+  const cameraPosition = camera && pickVector(camera.position);
+  const cameraTarget = camera && pickVector(camera.target);
+  const signal = pickNumbers(value.signal);
+  const validSignal = signal && signal.length >= MIN_POINTS && signal.length <= MAX_POINTS ? signal : null;
+
+  return {
+    version: SESSION_VERSION,
+    // A drawn signal fixes the sample count
+    numPoints: validSignal ? validSignal.length : Math.round(pickNumber(value.numPoints, 128, MIN_POINTS, MAX_POINTS)),
+    sampleRate: pickNumber(value.sampleRate, 128, Number.MIN_VALUE),
+    inputMode: pickEnum(value.inputMode, InputMode, InputMode.EQUATION),
+    source: {
+      equation: pickString(source.equation, DEFAULT_SIGNAL_SOURCE.equation),
+      imagEquation: pickString(source.imagEquation, DEFAULT_SIGNAL_SOURCE.imagEquation),
+      complexEquation: pickBoolean(source.complexEquation, false),
+      rawNumbers: pickString(source.rawNumbers, ''),
+      iqPairs: pickBoolean(source.iqPairs, false),
+      antiAlias: pickBoolean(source.antiAlias, false),
+    },
+    signal: validSignal,
+    window: {
+      type: pickEnum(windowSettings.type, WindowType, WindowType.RECTANGULAR),
+      kaiserBeta: pickNumber(windowSettings.kaiserBeta, 8.6, 0, 20),
+    },
+    padFactor: Math.round(pickNumber(value.padFactor, 1, 1, 16)),
+    twoSided: pickBoolean(value.twoSided, false),
+    spectrumScale: {
+      scale: pickEnum(scale.scale, SpectrumScale, SpectrumScale.AMPLITUDE),
+      dbReference: pickNumber(scale.dbReference, 1, Number.MIN_VALUE),
+      dbFloor: pickNumber(scale.dbFloor, -80, -400, -1),
+    },
+    phase: {
+      showWall: pickBoolean(phase.showWall, true),
+      unwrapped: pickBoolean(phase.unwrapped, false),
+      thresholdDb: pickNumber(phase.thresholdDb, -40, -120, 0),
+      showGroupDelay: pickBoolean(phase.showGroupDelay, false),
+    },
+    reconstruction: {
+      mode: pickEnum(reconstruction.mode, ReconstructionMode, ReconstructionMode.OFF),
+      count: Math.round(pickNumber(reconstruction.count, 5, 1)),
+      disabledBins: pickNumbers(reconstruction.disabledBins) ?? [],
+    },
+    camera: cameraPosition && cameraTarget ? { position: cameraPosition, target: cameraTarget } : null,
+  };
+}
+
+/**
+ * Rounds drawn samples so they don't bloat the link; 5 significant digits is
+ * well below what a mouse can draw.
+ */
+function compactSession(session: Session): Session {
+  const round = (v: number) => Number(v.toPrecision(5));
+  const camera: CameraPose | null = session.camera && {
+    position: session.camera.position.map(round) as CameraPose['position'],
+    target: session.camera.target.map(round) as CameraPose['target'],
+  };
+  return { ...session, signal: session.signal && session.signal.map(round), camera };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function transformBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export async function encodeSession(session: Session): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(compactSession(session)));
+  if (typeof CompressionStream === 'undefined') return `j${toBase64Url(bytes)}`;
+  return `z${toBase64Url(await transformBytes(bytes, new CompressionStream('deflate-raw')))}`;
+}
+
+export async function decodeSession(payload: string): Promise<Session> {
+  const format = payload[0];
+  let bytes = fromBase64Url(payload.slice(1));
+  if (format === 'z') {
+    if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot decompress share links');
+    bytes = await transformBytes(bytes, new DecompressionStream('deflate-raw'));
+  } else if (format !== 'j') {
+    throw new Error('Unrecognized share link format');
+  }
+  return normalizeSession(JSON.parse(new TextDecoder().decode(bytes)));
+}
+
+/**
+ * The session payload of a location hash such as `#s=z...`, or null if there is none.
+ */
+export function sessionPayloadFromHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(FRAGMENT_KEY);
+}
+
+export async function createShareUrl(session: Session, base = window.location.href): Promise<string> {
+  const url = new URL(base);
+  url.hash = `${FRAGMENT_KEY}=${await encodeSession(session)}`;
+  return url.toString();
+}
@@ -0,0 +1,54 @@
+import { SignalSource, SignalState } from '../types';
+
+/**
+ * Comparisons of SignalState values, used by undo history and snapshots.
+ */
+
+const sameArray = (a: number[] | null, b: number[] | null) => {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+const sameSource = (a: SignalSource, b: SignalSource) =>
+  a === b || (
+    a.equation === b.equation &&
+    a.imagEquation === b.imagEquation &&
+    a.complexEquation === b.complexEquation &&
+    a.rawNumbers === b.rawNumbers &&
+    a.iqPairs === b.iqPairs &&
+    a.antiAlias === b.antiAlias
+  );
+
+export function sameSignalState(a: SignalState, b: SignalState): boolean {
+  return a.inputMode === b.inputMode &&
+    a.numPoints === b.numPoints &&
+    a.sampleRate === b.sampleRate &&
+    sameSource(a.source, b.source) &&
+    sameArray(a.signal, b.signal) &&
+    sameArray(a.imagSignal, b.imagSignal);
+}
+
+/**
+ * True when two states differ only in content (samples, formula text), not in
+ * mode or size, so quick successive edits can share one undo step.
+ */
+export function sameSignalLayout(a: SignalState, b: SignalState): boolean {
+  return a.inputMode === b.inputMode && a.numPoints === b.numPoints;
+}
+
+/**
+ * RMS difference between two signals of equal length, or null when the lengths differ.
+ */
+export function rmsDifference(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length === 0) return null;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum / a.length);
+}
@@ -0,0 +1,95 @@
+import { FrequencyComponent, SpectrumScale, SpectrumScaleSettings } from '../types';
+
+/**
+ * What a component list was measured from, needed to turn amplitudes into
+ * power and density.
+ */
+export interface SpectrumContext {
+  n: number; // Samples analyzed; sets the resolution bandwidth
+  fftLength: number; // n plus any zero padding
+  sampleRate: number;
+  twoSided: boolean;
+  noiseBandwidth: number; // Window ENBW in bins (1 when unwindowed)
+}
+
+export const SPECTRUM_SCALE_LABELS: Record<SpectrumScale, string> = {
+  [SpectrumScale.AMPLITUDE]: 'Amplitude',
+  [SpectrumScale.POWER]: 'Power',
+  [SpectrumScale.PSD]: 'PSD (per Hz)',
+  [SpectrumScale.DB]: 'dB',
+};
+
+const SPECTRUM_UNITS: Record<SpectrumScale, string> = {
+  [SpectrumScale.AMPLITUDE]: '',
+  [SpectrumScale.POWER]: 'u²',
+  [SpectrumScale.PSD]: 'u²/Hz',
+  [SpectrumScale.DB]: 'dB',
+};
+
+/**
+ * Mean-square power carried by one component. A single-sided interior bin is
+ * a cosine of amplitude A (power A²/2); DC, Nyquist and two-sided bins are
+ * single complex exponentials (power A²). Summing over all bins gives the
+ * signal's mean square, as Parseval says it should.
+ */
+export function componentPower(component: FrequencyComponent, context: SpectrumContext): number {
+  const { fftLength, twoSided } = context;
+  const k = Math.abs(component.bin);
+  const folded = !twoSided && k !== 0 && 2 * k !== fftLength;
+  const a = component.amplitude;
+  return folded ? (a * a) / 2 : a * a;
+}
+
+/**
+ * Converts component amplitudes to the requested scale, one value per component.
+ * dB values are 20·log10(A / reference), clamped at the floor.
+ */
+export function scaleSpectrum(
+  components: FrequencyComponent[],
+  settings: SpectrumScaleSettings,
+  context: SpectrumContext
+): number[] {
+  switch (settings.scale) {
+    case SpectrumScale.POWER:
+      return components.map(c => componentPower(c, context));
+    case SpectrumScale.PSD: {
+      // Power spread over the window's noise bandwidth, in Hz
+      const bandwidth = (context.noiseBandwidth * context.sampleRate) / (context.n || 1);
+      return components.map(c => componentPower(c, context) / (bandwidth || 1));
+    }
+    case SpectrumScale.DB: {
+      const reference = settings.dbReference > 0 ? settings.dbReference : 1;
+      return components.map(c => Math.max(settings.dbFloor, 20 * Math.log10(c.amplitude / reference)));
+    }
+    default:
+      return components.map(c => c.amplitude);
+  }
+}
+
+/**
+ * Largest value of a scaled spectrum; the dB floor when it is empty.
+ */
+export function spectrumPeak(values: number[], settings: SpectrumScaleSettings): number {
+  const empty = settings.scale === SpectrumScale.DB ? settings.dbFloor : 0;
+  return values.reduce((m, v) => Math.max(m, v), empty);
+}
+
+/**
+ * Maps scaled values to 0..1 bar heights. Linear scales are relative to the
+ * peak; dB spans the floor up to the peak. Pass `peak` to put a second
+ * spectrum on the same axis.
+ */
+export function normalizeSpectrum(values: number[], settings: SpectrumScaleSettings, peak = spectrumPeak(values, settings)): number[] {
+  if (settings.scale === SpectrumScale.DB) {
+    const range = peak - settings.dbFloor;
+    return values.map(v => (range > 0 ? Math.min(1, Math.max(0, (v - settings.dbFloor) / range)) : 0));
+  }
+  return values.map(v => (peak > 0 ? Math.min(1, v / peak) : 0));
+}
+
+export function formatSpectrumValue(value: number, scale: SpectrumScale): string {
+  const unit = SPECTRUM_UNITS[scale];
+  if (scale === SpectrumScale.DB) return `${value.toFixed(1)} ${unit}`;
+  const text = value !== 0 && Math.abs(value) < 1e-3 ? value.toExponential(2) : value.toFixed(4);
+  return unit ? `${text} ${unit}` : text;
+}
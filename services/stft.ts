@@ -0,0 +1,44 @@
+import { Spectrogram, StftSettings } from '../types';
+import { fft } from './fft';
+import { createWindow, coherentGain } from './window';
+
+/**
+ * Short-time Fourier transform: slides a window of `frameSize` samples along the
+ * signal in steps of `hop` and takes the amplitude spectrum of each frame.
+ * The last partial frame is zero-padded.
+ */
+export function computeStft(signal: number[], settings: StftSettings, sampleRate: number): Spectrogram {
+  const frameSize = Math.max(2, Math.floor(settings.frameSize));
+  const hop = Math.max(1, Math.floor(settings.hop));
+  const window = createWindow(settings.window, frameSize);
+  const gain = coherentGain(window) || 1;
+  const bins = Math.floor(frameSize / 2) + 1;
+
+  const frames: Float64Array[] = [];
+  const times: number[] = [];
+  let maxAmplitude = 0;
+
+  const frameCount = signal.length <= frameSize ? 1 : Math.ceil((signal.length - frameSize) / hop) + 1;
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * hop;
+    const frame = new Array(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+      frame[i] = (signal[start + i] ?? 0) * window[i];
+    }
+
+    const spectrum = fft(frame);
+    const amplitudes = new Float64Array(bins);
+    for (let k = 0; k < bins; k++) {
+      const { re, im } = spectrum[k];
+      // DC and Nyquist have no mirrored partner, so they are not doubled
+      const scale = k === 0 || k * 2 === frameSize ? 1 : 2;
+      amplitudes[k] = (scale * Math.sqrt(re * re + im * im)) / (frameSize * gain);
+      maxAmplitude = Math.max(maxAmplitude, amplitudes[k]);
+    }
+
+    frames.push(amplitudes);
+    times.push((start + frameSize / 2) / sampleRate);
+  }
+
+  return { frames, times, binWidth: sampleRate / frameSize, maxAmplitude };
+}
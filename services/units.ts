@@ -0,0 +1,26 @@
+/**
+ * Formatting helpers for physical units shown in the UI.
+ */
+
+const trimNumber = (value: number, digits: number) => {
+  return parseFloat(value.toFixed(digits)).toString();
+};
+
+export function formatFrequency(hz: number, digits = 2): string {
+  const abs = Math.abs(hz);
+  if (abs >= 1e6) return `${trimNumber(hz / 1e6, digits)}MHz`;
+  if (abs >= 1e3) return `${trimNumber(hz / 1e3, digits)}kHz`;
+  return `${trimNumber(hz, digits)}Hz`;
+}
+
+export function formatTime(seconds: number, digits = 2): string {
+  const abs = Math.abs(seconds);
+  if (abs === 0) return '0s';
+  if (abs < 1e-3) return `${trimNumber(seconds * 1e6, digits)}µs`;
+  if (abs < 1) return `${trimNumber(seconds * 1e3, digits)}ms`;
+  return `${trimNumber(seconds, digits)}s`;
+}
+
+export function formatComplex(c: { re: number; im: number }, digits = 2): string {
+  return `${c.re.toFixed(digits)} ${c.im < 0 ? '−' : '+'} ${Math.abs(c.im).toFixed(digits)}i`;
+}
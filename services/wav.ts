@@ -0,0 +1,210 @@
+import { FilterMethod, FilterType, WavData, WindowType } from '../types';
+import { downloadBlob } from './download';
+import { designFir } from './filter';
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+// Decimation low-pass: pass band edge as a fraction of the new Nyquist, and taps per unit of decimation ratio
+const DECIMATION_CUTOFF = 0.9;
+const DECIMATION_TAPS_PER_RATIO = 16;
+const MAX_DECIMATION_TAPS = 2047;
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+/**
+ * Reads one sample at `offset` and scales it to -1..1.
+ */
+function readSample(view: DataView, offset: number, format: number, bits: number): number {
+  if (format === FORMAT_FLOAT) {
+    return bits === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bits) {
+    case 8:
+      // 8-bit PCM is unsigned with a 128 midpoint
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(offset, true) / 2147483648;
+    default:
+      throw new Error(`Unsupported PCM bit depth: ${bits}`);
+  }
+}
+
+/**
+ * Parses a RIFF/WAVE file holding 8/16/24/32-bit integer or 32/64-bit float PCM.
+ * Multi-channel audio is downmixed to mono by averaging.
+ */
+export function parseWav(buffer: ArrayBuffer): WavData {
+  const view = new DataView(buffer);
+  if (view.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bits = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bits = view.getUint16(body + 14, true);
+      if (format === FORMAT_EXTENSIBLE && size >= 26) {
+        // The first two bytes of the SubFormat GUID carry the real format code
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      dataOffset = body;
+      // Some writers leave the size unset when streaming; clamp to the buffer
+      dataLength = Math.min(size, view.byteLength - body);
+      break;
+    }
+
+    // Chunks are word-aligned
+    offset = body + size + (size % 2);
+  }
+
+  if (!channels || !sampleRate || !bits) throw new Error('Missing or invalid fmt chunk');
+  if (dataOffset < 0) throw new Error('Missing data chunk');
+  if (format !== FORMAT_PCM && format !== FORMAT_FLOAT) {
+    throw new Error(`Unsupported WAV format code: ${format}`);
+  }
+  if (format === FORMAT_FLOAT && bits !== 32 && bits !== 64) {
+    throw new Error(`Unsupported float bit depth: ${bits}`);
+  }
+
+  const bytesPerSample = bits / 8;
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(dataLength / frameSize);
+  const samples = new Float32Array(frames);
+
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let ch = 0; ch < channels; ch++) {
+      sum += readSample(view, dataOffset + i * frameSize + ch * bytesPerSample, format, bits);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { sampleRate, channels, bitsPerSample: bits, samples };
+}
+
+/**
+ * Encodes a mono signal as a 32-bit float WAV file, so values beyond ±1 survive the round trip.
+ */
+export function encodeWav(signal: ArrayLike<number>, sampleRate: number): ArrayBuffer {
+  const bytesPerSample = 4;
+  const dataLength = signal.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  const rate = Math.max(1, Math.round(sampleRate));
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, FORMAT_FLOAT, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  for (let i = 0; i < signal.length; i++) {
+    view.setFloat32(44 + i * bytesPerSample, signal[i] || 0, true);
+  }
+  return buffer;
+}
+
+/**
+ * Triggers a browser download of the signal as a WAV file.
+ */
+export function downloadWav(signal: ArrayLike<number>, sampleRate: number, fileName: string): void {
+  downloadBlob(new Blob([encodeWav(signal, sampleRate)], { type: 'audio/wav' }), fileName);
+}
+
+/**
+ * Windowed-sinc low-pass for decimating by `ratio`, normalized to unity gain at DC.
+ */
+function decimationFilter(ratio: number): number[] {
+  const taps = designFir({
+    type: FilterType.LOW_PASS,
+    method: FilterMethod.FIR,
+    cutoff: DECIMATION_CUTOFF / ratio,
+    cutoffHigh: 1,
+    taps: Math.min(MAX_DECIMATION_TAPS, Math.ceil(DECIMATION_TAPS_PER_RATIO * ratio) | 1),
+    window: { type: WindowType.HAMMING, kaiserBeta: 8.6 },
+    customGains: [],
+  });
+  const sum = taps.reduce((a, b) => a + b, 0);
+  return taps.map(h => h / sum);
+}
+
+/**
+ * Cuts `length` samples starting at `start` and linearly resamples them to `numPoints`.
+ * When that lowers the rate, the samples are first low-passed below the new
+ * Nyquist so content above it doesn't fold into the spectrum. The filter reads
+ * past the segment edges where the file has samples.
+ */
+export function extractSegment(samples: Float32Array, start: number, length: number, numPoints: number): number[] {
+  const from = Math.max(0, Math.min(Math.floor(start), samples.length - 1));
+  const len = Math.max(1, Math.min(Math.floor(length), samples.length - from));
+
+  if (len === numPoints) {
+    return Array.from(samples.subarray(from, from + len));
+  }
+
+  const ratio = len / numPoints;
+  let sampleAt = (index: number) => samples[index];
+  if (ratio > 1) {
+    const taps = decimationFilter(ratio);
+    const half = (taps.length - 1) / 2;
+    sampleAt = (index: number) => {
+      let sum = 0;
+      for (let k = 0; k < taps.length; k++) {
+        // Mirror at the ends of the file
+        let j = index + k - half;
+        if (j < 0) j = -j;
+        if (j >= samples.length) j = 2 * (samples.length - 1) - j;
+        sum += taps[k] * (samples[Math.min(Math.max(j, 0), samples.length - 1)] || 0);
+      }
+      return sum;
+    };
+  }
+
+  return new Array(numPoints).fill(0).map((_, i) => {
+    const pos = from + i * ratio;
+    const low = Math.floor(pos);
+    const high = Math.min(low + 1, samples.length - 1);
+    const weight = pos - low;
+    return sampleAt(low) * (1 - weight) + (weight > 0 ? sampleAt(high) * weight : 0);
+  });
+}
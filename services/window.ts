@@ -0,0 +1,90 @@
+import { WindowSettings, WindowType } from '../types';
+
+export const WINDOW_LABELS: Record<WindowType, string> = {
+  [WindowType.RECTANGULAR]: 'Rectangular',
+  [WindowType.HANN]: 'Hann',
+  [WindowType.HAMMING]: 'Hamming',
+  [WindowType.BLACKMAN]: 'Blackman',
+  [WindowType.BLACKMAN_HARRIS]: 'Blackman-Harris',
+  [WindowType.FLAT_TOP]: 'Flat-top',
+  [WindowType.KAISER]: 'Kaiser',
+};
+
+// Cosine-sum coefficients a0, a1, a2... for w[i] = Σ (-1)^j a_j cos(2πji/N)
+const COSINE_SUM: Partial<Record<WindowType, number[]>> = {
+  [WindowType.RECTANGULAR]: [1],
+  [WindowType.HANN]: [0.5, 0.5],
+  [WindowType.HAMMING]: [0.54, 0.46],
+  [WindowType.BLACKMAN]: [0.42, 0.5, 0.08],
+  [WindowType.BLACKMAN_HARRIS]: [0.35875, 0.48829, 0.14128, 0.01168],
+  [WindowType.FLAT_TOP]: [0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368],
+};
+
+/**
+ * Zeroth-order modified Bessel function of the first kind (power series).
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-16) break;
+  }
+  return sum;
+}
+
+/**
+ * Builds a periodic (DFT-even) window of length n, which is the right
+ * variant for spectral analysis.
+ */
+export function createWindow(settings: WindowSettings, n: number): number[] {
+  if (n <= 0) return [];
+
+  if (settings.type === WindowType.KAISER) {
+    const beta = settings.kaiserBeta;
+    const denom = besselI0(beta);
+    return new Array(n).fill(0).map((_, i) => {
+      const r = (2 * i) / n - 1;
+      return besselI0(beta * Math.sqrt(Math.max(0, 1 - r * r))) / denom;
+    });
+  }
+
+  const coeffs = COSINE_SUM[settings.type] ?? [1];
+  return new Array(n).fill(0).map((_, i) => {
+    let w = 0;
+    for (let j = 0; j < coeffs.length; j++) {
+      const sign = j % 2 === 0 ? 1 : -1;
+      w += sign * coeffs[j] * Math.cos((2 * Math.PI * j * i) / n);
+    }
+    return w;
+  });
+}
+
+export function applyWindow(signal: number[], window: number[]): number[] {
+  return signal.map((v, i) => v * (window[i] ?? 1));
+}
+
+/**
+ * Mean of the window. Dividing amplitudes by it restores the height of a
+ * sinusoid that sits exactly on a bin.
+ */
+export function coherentGain(window: number[]): number {
+  if (window.length === 0) return 1;
+  return window.reduce((sum, w) => sum + w, 0) / window.length;
+}
+
+/**
+ * Equivalent noise bandwidth in bins: N·Σw² / (Σw)². 1 for the rectangular
+ * window, about 1.5 for Hann. Needed to turn bin power into a density.
+ */
+export function equivalentNoiseBandwidth(window: number[]): number {
+  let sum = 0;
+  let sumSq = 0;
+  for (const w of window) {
+    sum += w;
+    sumSq += w * w;
+  }
+  return sum === 0 ? 1 : (window.length * sumSq) / (sum * sum);
+}
@@ -0,0 +1,99 @@
+import { Session, Workspace } from '../types';
+import { normalizeSession } from './session';
+import { downloadBlob } from './download';
+
+/**
+ * Named workspaces saved in localStorage, plus JSON files for handing them out.
+ */
+
+const STORAGE_KEY = 'fft-explorer.workspaces';
+const FILE_FORMAT = 'fft-explorer-workspaces';
+const FILE_VERSION = 1;
+
+const byName = (a: Workspace, b: Workspace) => a.name.localeCompare(b.name);
+
+/**
+ * Validates one stored or imported workspace; entries that don't parse are dropped.
+ */
+function toWorkspace(value: unknown): Workspace | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.name !== 'string' || !entry.name.trim()) return null;
+  try {
+    return {
+      name: entry.name.trim(),
+      savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : new Date().toISOString(),
+      session: normalizeSession(entry.session),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function loadWorkspaces(): Workspace[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.map(toWorkspace).filter((w): w is Workspace => w !== null).sort(byName);
+  } catch {
+    return [];
+  }
+}
+
+function storeWorkspaces(workspaces: Workspace[]): Workspace[] {
+  const sorted = [...workspaces].sort(byName);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sorted));
+  return sorted;
+}
+
+/**
+ * Adds the given workspaces, replacing any with the same name. Returns the new list.
+ */
+export function putWorkspaces(added: Workspace[]): Workspace[] {
+  const names = new Set(added.map(w => w.name));
+  return storeWorkspaces([...loadWorkspaces().filter(w => !names.has(w.name)), ...added]);
+}
+
+export function saveWorkspace(name: string, session: Session): Workspace[] {
+  return putWorkspaces([{ name: name.trim(), savedAt: new Date().toISOString(), session }]);
+}
+
+export function deleteWorkspace(name: string): Workspace[] {
+  return storeWorkspaces(loadWorkspaces().filter(w => w.name !== name));
+}
+
+export function downloadWorkspaces(workspaces: Workspace[], fileName: string): void {
+  const file = { format: FILE_FORMAT, version: FILE_VERSION, workspaces };
+  downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), fileName);
+}
+
+/**
+ * Reads a workspace file written by downloadWorkspaces. A bare session object
+ * is accepted too and named after the file.
+ */
+export function parseWorkspaceFile(text: string, fileName: string): Workspace[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null) throw new Error('File does not contain workspaces');
+
+  const file = data as Record<string, unknown>;
+  if (file.format === FILE_FORMAT) {
+    if (typeof file.version === 'number' && file.version > FILE_VERSION) {
+      throw new Error('Workspace file was written by a newer version of the app');
+    }
+    const workspaces = Array.isArray(file.workspaces) ? file.workspaces.map(toWorkspace) : [];
+    const valid = workspaces.filter((w): w is Workspace => w !== null);
+    if (valid.length === 0) throw new Error('File contains no valid workspaces');
+    return valid;
+  }
+
+  if ('version' in file) {
+    const name = fileName.replace(/\.json$/i, '') || 'Imported';
+    return [{ name, savedAt: new Date().toISOString(), session: normalizeSession(file) }];
+  }
+  throw new Error('File does not contain workspaces');
+}
@@ -10,22 +10,278 @@ export interface SignalPoint {
 }
 
 export interface FrequencyComponent {
-  frequency: number;
+  bin: number; // FFT bin index k, negative for the lower half of a two-sided spectrum
+  frequency: number; // Physical frequency in Hz (k * fs / N)
   amplitude: number;
   phase: number;
-  signal: number[]; // Time-domain representation of this single component
+}
+
+/**
+ * One radix-2 butterfly: top' = top + W·bottom, bottom' = top - W·bottom.
+ */
+export interface Butterfly {
+  top: number; // Row (position in the bit-reversed array)
+  bottom: number;
+  twiddleIndex: number; // W = exp(-2πi·twiddleIndex / stageSize)
+  twiddle: Complex;
+  inputs: [Complex, Complex];
+  outputs: [Complex, Complex];
+}
+
+export interface FftStage {
+  size: number; // Length of the DFTs this stage produces (2, 4, ... N)
+  butterflies: Butterfly[];
+  values: Complex[]; // Row values after the stage
+}
+
+/**
+ * Every intermediate value of a radix-2 decimation-in-time FFT.
+ */
+export interface FftTrace {
+  input: Complex[];
+  order: number[]; // Sample index held by each row after the bit-reversal permutation
+  stages: FftStage[];
 }
 
 export enum InputMode {
   DRAW = 'DRAW',
   EQUATION = 'EQUATION',
   NUMBERS = 'NUMBERS',
+  FILE = 'FILE',
+}
+
+export enum DrawTool {
+  BRUSH = 'BRUSH',
+  LINE = 'LINE',
+  SPLINE = 'SPLINE',
+}
+
+// Circular symmetry about n = 0, as the DFT sees it: even signals have a real
+// spectrum, odd signals a purely imaginary one
+export enum DrawSymmetry {
+  NONE = 'NONE',
+  EVEN = 'EVEN',
+  ODD = 'ODD',
+}
+
+export interface DrawConstraints {
+  periodic: boolean; // Strokes and splines wrap around from the last sample to the first
+  symmetry: DrawSymmetry;
+}
+
+export interface ControlPoint {
+  position: number; // 0..1 across the record
+  value: number;
+}
+
+export enum ConvolutionOperation {
+  CONVOLUTION = 'CONVOLUTION',
+  CORRELATION = 'CORRELATION',
+}
+
+export interface WavData {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  samples: Float32Array; // Mono (channels averaged), scaled to -1..1
+}
+
+export enum WindowType {
+  RECTANGULAR = 'RECTANGULAR',
+  HANN = 'HANN',
+  HAMMING = 'HAMMING',
+  BLACKMAN = 'BLACKMAN',
+  BLACKMAN_HARRIS = 'BLACKMAN_HARRIS',
+  FLAT_TOP = 'FLAT_TOP',
+  KAISER = 'KAISER',
+}
+
+export interface WindowSettings {
+  type: WindowType;
+  kaiserBeta: number;
+}
+
+export enum FilterType {
+  OFF = 'OFF',
+  LOW_PASS = 'LOW_PASS',
+  HIGH_PASS = 'HIGH_PASS',
+  BAND_PASS = 'BAND_PASS',
+  NOTCH = 'NOTCH',
+  CUSTOM = 'CUSTOM',
+}
+
+export enum FilterMethod {
+  MASK = 'MASK', // Ideal gain applied bin by bin to the DFT
+  FIR = 'FIR', // Windowed-sinc FIR filter
+}
+
+export interface FilterSettings {
+  type: FilterType;
+  method: FilterMethod;
+  cutoff: number; // Fraction of Nyquist (0..1); lower edge for band-pass and notch
+  cutoffHigh: number; // Upper edge for band-pass and notch
+  taps: number; // FIR length, odd
+  window: WindowSettings; // FIR design window
+  customGains: number[]; // Custom gain curve, evenly spaced from DC to Nyquist
+}
+
+export enum SpectrumScale {
+  AMPLITUDE = 'AMPLITUDE',
+  POWER = 'POWER',
+  PSD = 'PSD',
+  DB = 'DB',
+}
+
+export interface SpectrumScaleSettings {
+  scale: SpectrumScale;
+  dbReference: number; // Amplitude that reads as 0 dB
+  dbFloor: number; // Lowest level shown, in dB
+}
+
+export interface PhaseSettings {
+  showWall: boolean; // Second wall in the 3D scene
+  unwrapped: boolean;
+  thresholdDb: number; // Bins weaker than this (relative to the peak) have no meaningful phase
+  showGroupDelay: boolean;
+}
+
+export interface PhasePoint {
+  bin: number;
+  frequency: number;
+  wrapped: number; // -π..π
+  unwrapped: number;
+  groupDelay: number | null; // Seconds, null where no adjacent bin is kept to difference against
+}
+
+export interface StftSettings {
+  frameSize: number;
+  hop: number;
+  window: WindowSettings;
+}
+
+export interface Spectrogram {
+  frames: Float64Array[]; // One single-sided amplitude spectrum per frame (frameSize / 2 + 1 bins)
+  times: number[]; // Frame centre times in seconds
+  binWidth: number; // Hz per bin
+  maxAmplitude: number;
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Float64Array; // Row-major luminance in 0..1
+}
+
+/**
+ * 2D transform in row-major order, DC at index 0 (not shifted).
+ */
+export interface Spectrum2D {
+  width: number;
+  height: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export enum MaskBrush {
+  BLOCK = 'BLOCK',
+  PASS = 'PASS',
+}
+
+export enum ReconstructionMode {
+  OFF = 'OFF',
+  MANUAL = 'MANUAL',
+  TOP_K = 'TOP_K',
+  PARTIAL_SUM = 'PARTIAL_SUM',
+}
+
+export interface ReconstructionStats {
+  rmsError: number;
+  maxError: number;
+  energyCaptured: number; // Ratio of reconstructed to original signal energy
+}
+
+export interface SignalSource {
+  equation: string;
+  imagEquation: string; // Q formula when complexEquation is on
+  complexEquation: boolean;
+  rawNumbers: string;
+  iqPairs: boolean; // rawNumbers holds "i q" pairs per line
+  antiAlias: boolean; // Low-pass the formula before sampling it
+}
+
+/**
+ * The part of the app state that defines the input signal; one undo step.
+ */
+export interface SignalState {
+  inputMode: InputMode;
+  numPoints: number;
+  sampleRate: number;
+  source: SignalSource;
+  signal: number[];
+  imagSignal: number[] | null;
+}
+
+export enum CompareSlot {
+  A = 'A',
+  B = 'B',
+}
+
+/**
+ * One side of an A/B comparison: a signal with its own N, window and sidedness.
+ */
+export interface AnalysisSlot {
+  state: SignalState;
+  window: WindowSettings;
+  twoSided: boolean; // The two-sided toggle; complex signals are two-sided regardless
+}
+
+export interface SignalSnapshot {
+  id: number;
+  name: string;
+  createdAt: string; // ISO timestamp
+  state: SignalState;
+}
+
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+/**
+ * Everything needed to restore a session. Bump SESSION_VERSION in
+ * services/session.ts and add a migration when this shape changes.
+ */
+export interface Session {
+  version: number;
+  numPoints: number;
+  sampleRate: number;
+  inputMode: InputMode;
+  source: SignalSource;
+  signal: number[] | null; // Only stored for drawn signals, which can't be regenerated
+  window: WindowSettings;
+  padFactor: number;
+  twoSided: boolean;
+  spectrumScale: SpectrumScaleSettings;
+  phase: PhaseSettings;
+  reconstruction: { mode: ReconstructionMode; count: number; disabledBins: number[] };
+  camera: CameraPose | null;
+}
+
+export interface Workspace {
+  name: string;
+  savedAt: string; // ISO timestamp
+  session: Session;
 }
 
 export interface AppState {
   signal: number[];
+  imagSignal: number[] | null; // Q channel for complex (I/Q) input, null for real signals
+  twoSided: boolean;
   numPoints: number;
+  sampleRate: number; // Samples per second; duration is numPoints / sampleRate
   fftData: Complex[];
   components: FrequencyComponent[];
   inputMode: InputMode;
+  window: WindowSettings;
+  reconstructionMode: ReconstructionMode;
 }
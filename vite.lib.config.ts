@@ -0,0 +1,22 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Headless build: the analysis core (lib.ts) and the CLI (cli.ts), without React
+export default defineConfig({
+  build: {
+    outDir: 'dist-lib',
+    emptyOutDir: true,
+    target: 'node18',
+    minify: false,
+    lib: {
+      entry: {
+        index: path.resolve(__dirname, 'lib.ts'),
+        cli: path.resolve(__dirname, 'cli.ts'),
+      },
+      formats: ['es'],
+    },
+    rollupOptions: {
+      external: [/^node:/],
+    },
+  },
+});